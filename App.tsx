@@ -1,24 +1,120 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import Peer, { DataConnection } from 'peerjs';
+import Peer, { DataConnection, MediaConnection } from 'peerjs';
 import { Lobby } from './components/Lobby';
 import { EmulatorScreen } from './components/EmulatorScreen';
 import { ControlPanel } from './components/ControlPanel';
-import { ConnectionRole, Platform, PeerMessage, ControllerInput } from './types';
-import { VirtualConsole } from './engine/VirtualConsole';
+import { ReconnectOverlay } from './components/ReconnectOverlay';
+import { PauseOverlay } from './components/PauseOverlay';
+import { NetworkStatsOverlay, StatsLink } from './components/NetworkStatsOverlay';
+import { ChatPanel } from './components/ChatPanel';
+import { ConfirmDialog, ConfirmRequest } from './components/ConfirmDialog';
+import { PlatformChoiceDialog } from './components/PlatformChoiceDialog';
+import { GameChoiceDialog } from './components/GameChoiceDialog';
+import { BiosManager } from './components/BiosManager';
+import { RomLibrary } from './components/RomLibrary';
+import { ConnectionRole, Platform, PeerMessage, ControllerInput, NetplayMode, VoiceMode, StreamQualityConfig, StreamQualityPreset, StreamQualitySettings, RomInfo, RomHash, RewindSettings, PlaybackPayload, PlaybackSpeed, PauseReason, RomTransferProgress, SharedState, SaveRestorePayload, PlatformDetection, RomSet, LibraryEntry, SaveSlot, PortMapPayload, PlayerSeat, JoinIdentity, NetworkSettings, ReconnectState, NetworkSample, ChatMessage, HelloPayload, LockstepStartPayload, LockstepInputPayload, RomTransferStartPayload } from './types';
+import { VirtualConsole, CONTROLLER_PORTS } from './engine/VirtualConsole';
+import { LockstepSession } from './engine/LockstepSession';
+import { getPlatformInfo } from './engine/platforms';
+import { detectPlatform } from './engine/platformDetect';
 import { InputService } from './services/inputService';
 import { AudioService } from './services/audioService';
+import { parsePeerMessage, createHello, checkHello, sendMessage, ProtocolError, HOST_ONLY_MESSAGES, SPECTATOR_MESSAGES } from './services/protocol';
+import { ReconnectService } from './services/reconnectService';
+import { cleanDisplayName, saveDisplayName } from './services/profile';
+import { VoiceService, LOCAL_VOICE_ID } from './services/voiceService';
+import { hashRom, hashesMatch } from './services/romHash';
+import { RomTransferSender, RomTransferReceiver, MAX_ROM_BYTES } from './services/romTransfer';
+import { extractRoms, isArchive } from './services/archive';
+import { groupRomSets, singleRom } from './services/romSet';
+import { addPlayTime, entryToRomSet, libraryId, loadLibraryEnabled, rememberRom, saveLibraryEnabled } from './services/romLibrary';
+import { ImportedSlot, deleteSlot, exportSlots, getSlot, listSlots, readSlotBundle, writeSlot } from './services/saveSlots';
+import { getSaveRam, putSaveRam } from './services/saveRam';
+import { RewindOverrides, loadRewindOverrides, rewindSettingsFor, saveRewindOverrides } from './services/rewindSettings';
+import { AutoQualityController, applySenderQuality, captureFps, loadStreamQuality, preferCodec, resolveQuality, saveStreamQuality } from './services/streamQuality';
+import { LatencyTracker, MediaStatsCollector, createEmptySample, pushSample } from './services/statsService';
+import { encodeInputPacket, decodeInputPacket, inputToMask } from './services/inputCodec';
+import { loadNetworkSettings, saveNetworkSettings, clearNetworkSettings, toPeerOptions, toUrlParams } from './services/networkConfig';
+
+// GameName_YYYY-MM-DDTHH-mm.sav
+const stateFilename = (romName: string | null) => {
+  const cleanName = (romName || 'game').replace(/\.[^/.]+$/, "");
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `${cleanName}_${timestamp}.sav`;
+};
 
-const detectPlatform = (filename: string): Platform => {
-  const ext = filename.split('.').pop()?.toLowerCase();
-  if (ext === 'nes') return Platform.NES;
-  if (['sfc', 'smc'].includes(ext || '')) return Platform.SNES;
-  if (ext === 'gb') return Platform.GB;
-  if (ext === 'gba') return Platform.GBA;
-  if (['smd', 'gen', 'bin', 'md'].includes(ext || '')) return Platform.GENESIS;
-  if (['iso', 'img', 'cue'].includes(ext || '')) return Platform.PSX;
-  return Platform.SNES; // Default
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 };
 
+// A guest connected to this host, bound to one controller port (P1-P4), possibly shared with other players
+interface GuestSlot {
+  conn: DataConnection;
+  port: number;
+  name: string;
+  locked: boolean; // Host ignores this guest's input
+  input: ControllerInput; // Latest stream-mode input, merged with everyone else on the port
+  lastSeq?: number; // Sequence number of the last applied input packet
+}
+
+// Seat id of the host in the port assignment panel; guests use their peer id
+const HOST_SEAT = 'host';
+
+const NO_INPUT: ControllerInput = { up: false, down: false, left: false, right: false, a: false, b: false, x: false, y: false, l: false, r: false, start: false, select: false };
+
+// Players sharing a port: a button is held while anyone holds it
+const mergeInputs = (inputs: ControllerInput[]): ControllerInput =>
+  inputs.reduce<ControllerInput>((merged, input) => {
+    (Object.keys(merged) as (keyof ControllerInput)[]).forEach((button) => {
+        merged[button] = !!merged[button] || !!input[button];
+    });
+    return merged;
+  }, { ...NO_INPUT });
+
+// How long the host keeps a dropped guest's port free for it to come back
+const RESUME_WINDOW_MS = 60000;
+
+// Lockstep catches up at most this many frames after a stall. They are still stepped one per animation frame:
+// RetroArch takes one FRAMEADVANCE per main loop pass, and the inputs applied for a frame must be the ones it runs with
+const LOCKSTEP_MAX_OWED_FRAMES = 3;
+
+// Pause reasons in the order they are shown when several apply
+const PAUSE_REASON_ORDER: PauseReason[] = ['host', 'disconnect', 'hidden'];
+
+const NOT_PAUSED: PlaybackPayload = { paused: false, reason: null, rate: 1 };
+
+// How often the host stores the running game's battery save when it changed
+const SAVE_RAM_FLUSH_MS = 15000;
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+// Unchanged input is still resent this often, so a lost packet never leaves a button stuck for long
+const INPUT_KEEPALIVE_MS = 100;
+
+// Label of the secondary, unordered data channel that carries stream-mode input packets
+const INPUT_CHANNEL = 'input';
+
+// Oldest chat lines are dropped beyond this
+const CHAT_HISTORY_LIMIT = 200;
+
+// How often voice levels are checked for the speaking indicators
+const VOICE_ACTIVITY_INTERVAL_MS = 150;
+
+// A dropped guest's port, held until it reconnects or the resume window runs out
+interface PortReservation {
+  port: number;
+  name: string;
+  locked: boolean;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 const App: React.FC = () => {
   // State
   const [role, setRole] = useState<ConnectionRole>(ConnectionRole.NONE);
@@ -32,27 +128,169 @@ const App: React.FC = () => {
   const [enableCRT, setEnableCRT] = useState(false);
   const [isGamepadConnected, setIsGamepadConnected] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [guestPorts, setGuestPorts] = useState<number[]>([]); // Ports currently driven by guests
+  const [myPort, setMyPort] = useState<number | null>(null); // Guest: port assigned by the host
+  const [hostPort, setHostPort] = useState(1);
+  const [lockedPorts, setLockedPorts] = useState<number[]>([]); // Ports only locked-out guests drive
+  const [portLocked, setPortLocked] = useState(false); // Guest: the host is ignoring our input
+  const [playerSeats, setPlayerSeats] = useState<PlayerSeat[]>([]); // Host: rows of the port assignment panel
+  const [hasPassword, setHasPassword] = useState(false); // Host: joining needs the session password
+  const [rejection, setRejection] = useState<string | null>(null); // Guest: why the host turned us away
+  const [viewerCount, setViewerCount] = useState(0);
+  const [netplayMode, setNetplayMode] = useState<NetplayMode>(NetplayMode.STREAM);
+  const [networkSettings, setNetworkSettings] = useState<NetworkSettings>(loadNetworkSettings);
+  const [reconnectState, setReconnectState] = useState<ReconnectState | null>(null); // Guest: retrying the host
+  const [awaitingPorts, setAwaitingPorts] = useState<number[]>([]); // Host: ports held for dropped guests
+  const [pauseOnDisconnect, setPauseOnDisconnect] = useState(true);
+  const [pauseWhenHidden, setPauseWhenHidden] = useState(false); // Host: hold the game while our tab is in the background
+  const [playback, setPlayback] = useState<PlaybackPayload>(NOT_PAUSED); // Host: ours; Guest: the host's
+  const [gameSpeed, setGameSpeed] = useState<PlaybackSpeed>('normal'); // Host
+  const [fastForwardRatio, setFastForwardRatio] = useState(2); // Host: fast-forward speed for the next launch
+  const [showStats, setShowStats] = useState(false);
+  const [statsHistory, setStatsHistory] = useState<Record<string, NetworkSample[]>>({}); // Keyed by remote peer id
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [unreadChat, setUnreadChat] = useState(0);
+  const [chatSound, setChatSound] = useState(true);
+  const [voiceActive, setVoiceActive] = useState(false); // We joined voice chat
+  const [voiceMode, setVoiceMode] = useState<VoiceMode>(VoiceMode.PUSH_TO_TALK);
+  const [voiceMuted, setVoiceMuted] = useState(false);
+  const [voiceVolume, setVoiceVolume] = useState(1);
+  const [isTalking, setIsTalking] = useState(false); // Push-to-talk key held
+  const [speakingPorts, setSpeakingPorts] = useState<number[]>([]);
+  const [localSpeaking, setLocalSpeaking] = useState(false); // Guest: our own mic, ahead of the host's report
+  const [streamQuality, setStreamQuality] = useState<StreamQualityConfig>(loadStreamQuality); // Host: video feed encoder limits
+  const [hostRomInfo, setHostRomInfo] = useState<RomInfo | null>(null); // Guest: identity of the host's ROM
+  const [romTransfers, setRomTransfers] = useState<Record<string, RomTransferProgress>>({}); // Keyed by transfer id
+  const [confirmQueue, setConfirmQueue] = useState<ConfirmRequest[]>([]); // Prompts waiting for an answer, oldest first
+  const [gameChoice, setGameChoice] = useState<{ sourceName: string; sets: RomSet[] } | null>(null); // Selection holding several games
+  const [platformChoice, setPlatformChoice] = useState<{ rom: RomSet; detection: PlatformDetection } | null>(null); // ROM waiting for the user to name its system
+  const [isBiosManagerOpen, setIsBiosManagerOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [libraryEnabled, setLibraryEnabled] = useState(loadLibraryEnabled); // Host: keep loaded games in the library
+  const [discCount, setDiscCount] = useState(0); // Host: discs in the running game's playlist
+  const [currentDisc, setCurrentDisc] = useState(0);
+  const [saveSlots, setSaveSlots] = useState<SaveSlot[]>([]); // Host: occupied slots of the running game
+  const [selectedSlot, setSelectedSlot] = useState(1);
+  const [rewindOverrides, setRewindOverrides] = useState<RewindOverrides>(loadRewindOverrides); // Host: rewind settings changed from the system defaults
+  const [sharedStates, setSharedStates] = useState<SharedState[]>([]); // Guest: save states the host sent us
   
   // Refs for stable access in gameLoop without triggering re-renders/re-creation
   const roleRef = useRef(role);
   const romNameRef = useRef(romName);
   const platformRef = useRef(platform);
-  const connRef = useRef<DataConnection | null>(null);
+  const myPortRef = useRef(myPort);
+  const hostPortRef = useRef(1); // Written together with setHostPort, never through an effect
+  const portLockedRef = useRef(false); // Guest: written together with setPortLocked
+  const hostInputRef = useRef<ControllerInput>({ ...NO_INPUT }); // Host: our own input as of the last frame
+  const guestSeqRef = useRef(0); // Host: numbers guests that didn't give a name
+  const sessionPasswordRef = useRef(''); // Host: empty when anyone may ask to join
+  const joinIdentityRef = useRef<JoinIdentity>({ name: '', password: '' }); // Guest: resent on every reconnect
+  const netplayModeRef = useRef(netplayMode);
+  const networkSettingsRef = useRef(networkSettings);
+  const pauseOnDisconnectRef = useRef(pauseOnDisconnect);
+  const rewindOverridesRef = useRef(rewindOverrides);
+  const fastForwardRatioRef = useRef(fastForwardRatio);
+  const isChatOpenRef = useRef(isChatOpen);
+  const chatSoundRef = useRef(chatSound);
+  const chatIdRef = useRef(0);
+  const connRef = useRef<DataConnection | null>(null); // Guest: link to the host
+  const guestsRef = useRef<Map<string, GuestSlot>>(new Map()); // Host: links to guests, keyed by peer id
+  const spectatorsRef = useRef<Map<string, DataConnection>>(new Map()); // Host: stream-only viewers, keyed by peer id
+  const handshakesRef = useRef<WeakMap<DataConnection, HelloPayload>>(new WeakMap()); // Links that completed HELLO
+
+  // Input Transport Refs
+  const inputChannelsRef = useRef<Map<string, DataConnection>>(new Map()); // Host: guests' input channels, keyed by peer id
+  const inputChannelRef = useRef<DataConnection | null>(null); // Guest: our input channel to the host
+  const inputSeqRef = useRef(0); // Guest: sequence number of the last input packet sent
+  const lastInputMaskRef = useRef<number | null>(null); // Guest: last button mask sent (null forces a send)
+  const lastInputSentAtRef = useRef(0);
+
+  // Reconnect Refs
+  const hostIdRef = useRef<string | null>(null); // Guest: the host we joined, for retries
+  const wasRejectedRef = useRef(false); // Guest: the host turned us away, so don't retry
+  const reservationsRef = useRef<Map<string, PortReservation>>(new Map()); // Host: keyed by the dropped guest's peer id
+  const pauseReasonsRef = useRef<Set<PauseReason>>(new Set()); // Host: the game runs only while this is empty
+  const reconnectRef = useRef<ReconnectService>(new ReconnectService(
+    () => reconnectToHost(),
+    (state) => setReconnectState(state)
+  ));
   const consoleRef = useRef<VirtualConsole | null>(null);
   const inputService = useRef(InputService.getInstance());
   const audioService = useRef<AudioService | null>(null);
   const loopRef = useRef<number>(0);
   const peerRef = useRef<Peer | null>(null);
   const emulatorWrapperRef = useRef<HTMLDivElement>(null);
+
+  // Lockstep Refs
+  const lockstepRef = useRef<LockstepSession | null>(null);
+  const lockstepEpochRef = useRef(0);
+  const lockstepReadyRef = useRef<Set<string>>(new Set()); // Host: guests that loaded their copy of the ROM
+  const lockstepClockRef = useRef<{ session: LockstepSession | null; lastAt: number; owedMs: number }>({ session: null, lastAt: 0, owedMs: 0 }); // Frame pacing of the current run
   
   // Sync refs with state
   useEffect(() => { roleRef.current = role; }, [role]);
   useEffect(() => { romNameRef.current = romName; }, [romName]);
   useEffect(() => { platformRef.current = platform; }, [platform]);
+  useEffect(() => { myPortRef.current = myPort; }, [myPort]);
+  useEffect(() => { netplayModeRef.current = netplayMode; }, [netplayMode]);
+  useEffect(() => { networkSettingsRef.current = networkSettings; }, [networkSettings]);
+  useEffect(() => { pauseOnDisconnectRef.current = pauseOnDisconnect; }, [pauseOnDisconnect]);
+  useEffect(() => { rewindOverridesRef.current = rewindOverrides; }, [rewindOverrides]);
+  useEffect(() => { fastForwardRatioRef.current = fastForwardRatio; }, [fastForwardRatio]);
+  useEffect(() => { isChatOpenRef.current = isChatOpen; }, [isChatOpen]);
+  useEffect(() => { chatSoundRef.current = chatSound; }, [chatSound]);
+
+  // Bank play time whenever the tab may be about to go away
+  useEffect(() => {
+    const onHide = () => { if (document.visibilityState === 'hidden') flushPlayTime(); };
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', flushPlayTime);
+    return () => {
+        document.removeEventListener('visibilitychange', onHide);
+        window.removeEventListener('pagehide', flushPlayTime);
+    };
+  }, []);
+
+  // Keep the battery save current, so a closed tab or crash loses little progress
+  useEffect(() => {
+    const timer = setInterval(flushSaveRam, SAVE_RAM_FLUSH_MS);
+    window.addEventListener('beforeunload', flushSaveRam);
+    return () => {
+        clearInterval(timer);
+        window.removeEventListener('beforeunload', flushSaveRam);
+    };
+  }, []);
 
   // Streaming Refs
   const guestVideoRef = useRef<HTMLVideoElement>(document.createElement('video'));
   const currentStream = useRef<MediaStream | null>(null);
+  const callsRef = useRef<Map<string, MediaConnection>>(new Map()); // Video calls, keyed by remote peer id
+  const streamQualityRef = useRef(streamQuality);
+  const autoQualityRef = useRef<Map<string, AutoQualityController>>(new Map()); // Host: auto mode state per streamed peer
+  useEffect(() => { streamQualityRef.current = streamQuality; }, [streamQuality]);
+
+  // ROM Transfer Refs
+  const romSetRef = useRef<RomSet | null>(null); // Host: the game currently running, for guests to download
+  const playSessionRef = useRef<{ id: string; startedAt: number } | null>(null); // Host: play time not yet added to the library entry
+  const saveRamSessionRef = useRef<{ romId: string; romName: string; stored: Uint8Array | null } | null>(null); // Host: whose battery save to keep, and its last stored copy
+  const romInfoRef = useRef<RomInfo | null>(null); // Host: its hash once computed; Guest: the host's announcement
+  const uploadsRef = useRef<Map<string, RomTransferSender>>(new Map()); // Host: keyed by guest peer id
+  const downloadRef = useRef<RomTransferReceiver | null>(null); // Guest: the transfer we are receiving
+  const romRequestPendingRef = useRef(false); // Guest: asked the host for the ROM, waiting for ROM_TRANSFER_START
+  const transferPctRef = useRef<Map<string, number>>(new Map()); // Last whole percent shown per transfer
+  const transferSeqRef = useRef(0);
+  const sharedStateIdRef = useRef(0);
+
+  // Voice Refs
+  const voiceRef = useRef<VoiceService | null>(null);
+  const voiceCallsRef = useRef<Map<string, MediaConnection>>(new Map()); // Host: guests' voice calls; Guest: the call to the host
+  const voiceActiveRef = useRef(voiceActive);
+  useEffect(() => { voiceActiveRef.current = voiceActive; }, [voiceActive]);
+
+  // Stats Refs
+  const latencyRef = useRef<Map<string, LatencyTracker>>(new Map());
+  const collectorsRef = useRef<WeakMap<MediaConnection, MediaStatsCollector>>(new WeakMap());
 
   // --- Initialization ---
 
@@ -61,7 +299,9 @@ const App: React.FC = () => {
     audioService.current = new AudioService();
     // Setup hidden video element for Guest streaming
     guestVideoRef.current.autoplay = true;
-    guestVideoRef.current.muted = true; 
+    // The host's stream carries the game audio; it plays through this element at our own volume
+    guestVideoRef.current.muted = false;
+    guestVideoRef.current.volume = volume;
     guestVideoRef.current.playsInline = true;
   }, []);
 
@@ -87,158 +327,1672 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Chat hotkeys; while the chat box is open the game gets no keystrokes at all
+  useEffect(() => {
+    if (role === ConnectionRole.NONE) return;
+    const input = inputService.current;
+
+    if (!isChatOpen) {
+        return input.registerHotkey('KeyT', () => setIsChatOpen(true));
+    }
+
+    setUnreadChat(0);
+    input.setKeyboardBlocked(true);
+    const unregister = input.registerHotkey('Escape', () => setIsChatOpen(false), { whileBlocked: true });
+    return () => {
+        unregister();
+        input.setKeyboardBlocked(false);
+    };
+  }, [role, isChatOpen]);
+
+  // Only an open mic carries sound: open-mic mode, or push-to-talk while the key is held
+  useEffect(() => {
+    voiceRef.current?.setTransmitting(voiceActive && !voiceMuted && (voiceMode === VoiceMode.OPEN_MIC || isTalking));
+  }, [voiceActive, voiceMuted, voiceMode, isTalking]);
+
+  // Push-to-talk key
+  useEffect(() => {
+    if (!voiceActive || voiceMode !== VoiceMode.PUSH_TO_TALK) return;
+    const release = () => setIsTalking(false);
+    const unregister = inputService.current.registerHotkey('KeyV', () => setIsTalking(true), { onRelease: release });
+    window.addEventListener('blur', release);
+    return () => {
+        unregister();
+        window.removeEventListener('blur', release);
+        release();
+    };
+  }, [voiceActive, voiceMode]);
+
+  // Quick save and quick load, to the selected slot
+  useEffect(() => {
+    if (role !== ConnectionRole.HOST || !romName) return;
+    const input = inputService.current;
+    const unregisterSave = input.registerHotkey('F5', () => saveToSlot(selectedSlot));
+    const unregisterLoad = input.registerHotkey('F9', () => loadFromSlot(selectedSlot));
+    return () => {
+        unregisterSave();
+        unregisterLoad();
+    };
+  }, [role, romName, selectedSlot]);
+
+  // Rewind follows the settings of the running system; lockstep never rewinds, every peer must stay on the same frame
+  useEffect(() => {
+    if (role !== ConnectionRole.HOST || !consoleRef.current?.isRomLoaded) return;
+    consoleRef.current.setRewind(netplayMode === NetplayMode.LOCKSTEP ? null : rewindSettingsFor(rewindOverrides, platform));
+  }, [role, platform, netplayMode, rewindOverrides]);
+
+  // Playback keys: pause and fast-forward
+  useEffect(() => {
+    if (role !== ConnectionRole.HOST || !romName) return;
+    const input = inputService.current;
+    const unregisterPause = input.registerHotkey('KeyP', () => togglePause());
+    const unregisterFast = input.registerHotkey('KeyF', () => changeSpeed(consoleRef.current?.speed === 'fast' ? 'normal' : 'fast'));
+    return () => {
+        unregisterPause();
+        unregisterFast();
+    };
+  }, [role, romName]);
+
+  // Optionally hold the game while this tab is in the background
+  useEffect(() => {
+    if (role !== ConnectionRole.HOST) return;
+    const update = () => setPauseReason('hidden', pauseWhenHidden && document.visibilityState === 'hidden');
+    update();
+    document.addEventListener('visibilitychange', update);
+    return () => document.removeEventListener('visibilitychange', update);
+  }, [role, pauseWhenHidden]);
+
+  // Hold-to-rewind key
+  useEffect(() => {
+    if (role !== ConnectionRole.HOST || !romName) return;
+    const stop = () => consoleRef.current?.stopRewind();
+    const unregister = inputService.current.registerHotkey('KeyR', () => {
+        const emulator = consoleRef.current;
+        if (!emulator?.isRomLoaded) return;
+        if (!emulator.canRewind) {
+            showNotification(netplayModeRef.current === NetplayMode.LOCKSTEP ? "Rewind is off in lockstep mode" : "Rewind is off for this system");
+            return;
+        }
+        emulator.startRewind();
+    }, { onRelease: stop });
+    window.addEventListener('blur', stop);
+    return () => {
+        unregister();
+        window.removeEventListener('blur', stop);
+        stop();
+    };
+  }, [role, romName]);
+
+  // Speaking indicators: the host hears every voice and tells the guests who is talking
+  useEffect(() => {
+    if (role !== ConnectionRole.HOST && !voiceActive) return;
+    let lastKey = '';
+
+    const id = setInterval(() => {
+        const voice = voiceRef.current;
+        if (!voice) return;
+        const speaking = voice.getSpeaking();
+        let ports: number[];
+        if (roleRef.current === ConnectionRole.HOST) {
+            ports = Array.from(speaking)
+                .map(id => id === LOCAL_VOICE_ID ? hostPortRef.current : guestsRef.current.get(id)?.port)
+                .filter((port): port is number => port !== undefined)
+                .sort();
+        } else {
+            // The host's report lags a little; our own mic lights up immediately
+            ports = speaking.has(LOCAL_VOICE_ID) && myPortRef.current ? [myPortRef.current] : [];
+        }
+
+        const key = ports.join(',');
+        if (key === lastKey) return;
+        lastKey = key;
+        if (roleRef.current === ConnectionRole.HOST) {
+            setSpeakingPorts(ports);
+            guestsRef.current.forEach(({ conn }) => sendMessage(conn, { type: 'VOICE_ACTIVITY', payload: { ports } }));
+        } else {
+            setLocalSpeaking(ports.length > 0);
+        }
+    }, VOICE_ACTIVITY_INTERVAL_MS);
+
+    return () => clearInterval(id);
+  }, [role, voiceActive]);
+
+  // Sample link quality once a second: PING every peer and read the video call's RTC stats
+  useEffect(() => {
+    if (role === ConnectionRole.NONE) return;
+
+    const id = setInterval(async () => {
+        const links = roleRef.current === ConnectionRole.HOST
+            ? allConnections()
+            : connRef.current ? [connRef.current] : [];
+
+        const samples = await Promise.all(links.filter(conn => handshakesRef.current.has(conn)).map(async (conn) => {
+            let tracker = latencyRef.current.get(conn.peer);
+            if (!tracker) {
+                tracker = new LatencyTracker();
+                latencyRef.current.set(conn.peer, tracker);
+            }
+            sendMessage(conn, { type: 'PING', payload: tracker.createPing() });
+
+            const sample: NetworkSample = { ...createEmptySample(), rttMs: tracker.rttMs, jitterMs: tracker.jitterMs };
+            const call = callsRef.current.get(conn.peer);
+            if (call?.peerConnection) {
+                let collector = collectorsRef.current.get(call);
+                if (!collector) {
+                    collector = new MediaStatsCollector(call.peerConnection);
+                    collectorsRef.current.set(call, collector);
+                }
+                Object.assign(sample, await collector.sample());
+            }
+            return [conn.peer, sample] as const;
+        }));
+
+        // Auto quality reacts to each guest's link on its own
+        if (roleRef.current === ConnectionRole.HOST && streamQualityRef.current.preset === StreamQualityPreset.AUTO) {
+            samples.forEach(([peerId, sample]) => {
+                const call = callsRef.current.get(peerId);
+                const controller = autoQualityRef.current.get(peerId);
+                if (call?.peerConnection && controller?.update(sample)) {
+                    applySenderQuality(call.peerConnection, controller.settings);
+                }
+            });
+        }
+
+        // Links that went away drop out of the overlay
+        setStatsHistory(prev => {
+            const next: Record<string, NetworkSample[]> = {};
+            samples.forEach(([peerId, sample]) => {
+                next[peerId] = pushSample(prev[peerId] || [], sample);
+            });
+            return next;
+        });
+    }, 1000);
+
+    return () => clearInterval(id);
+  }, [role]);
+
   const resumeAudio = useCallback(async () => {
       if (audioService.current) {
           await audioService.current.resume();
       }
   }, []);
 
-  // Initialize Peer
-  const initPeer = useCallback(() => {
-    if (peerRef.current) {
-        if (!peerRef.current.destroyed) peerRef.current.destroy();
+  // Initialize Peer
+  const initPeer = useCallback(() => {
+    if (peerRef.current) {
+        if (!peerRef.current.destroyed) peerRef.current.destroy();
+    }
+
+    // Signaling server and ICE/TURN servers come from the network settings (cloud broker + default STUN if unset)
+    const newPeer = new Peer(toPeerOptions(networkSettingsRef.current)); 
+    peerRef.current = newPeer;
+
+    newPeer.on('open', (id) => {
+      setMyId(id);
+      setIsConnecting(false);
+    });
+
+    newPeer.on('connection', (connection) => {
+      handleConnection(connection);
+    });
+
+    newPeer.on('call', (call) => {
+        if (call.metadata?.kind === 'voice') {
+            handleVoiceCall(call);
+            return;
+        }
+        console.log("Receiving call (Stream)...");
+        call.answer(undefined); 
+        callsRef.current.get(call.peer)?.close();
+        callsRef.current.set(call.peer, call);
+        call.on('stream', (remoteStream) => {
+            console.log("Stream received!");
+            playHostStream(remoteStream);
+        });
+    });
+
+    newPeer.on('disconnected', () => {
+        console.log("Peer disconnected from signaling server.");
+        if (newPeer && !newPeer.destroyed) {
+            newPeer.reconnect();
+        }
+    });
+
+    newPeer.on('error', (err) => {
+      console.error("Peer Error:", err);
+      if (reconnectRef.current.isActive && (err.type === 'peer-unavailable' || err.type === 'network')) {
+         // Expected while the host is unreachable; the overlay shows the retry progress instead
+         return;
+      }
+      if (err.type === 'peer-unavailable') {
+         showNotification('Peer unavailable - check ID');
+      } else if (err.type === 'unavailable-id') {
+         showNotification('ID unavailable - try again');
+      } else if (err.type === 'network' || err.type === 'server-error' || err.type === 'socket-error' || err.type === 'socket-closed') {
+         console.warn("Network/Server error, waiting for recovery...");
+      } else {
+         showNotification('Connection Error: ' + err.type);
+         setIsConnecting(false);
+      }
+    });
+
+    // setPeer(newPeer); // Removed setPeer state to avoid unnecessary re-renders if not needed for UI
+    return newPeer;
+  }, []);
+
+  // Guest/Spectator: play the host's video and game audio. Browsers may refuse unmuted autoplay
+  // until the page has been interacted with, so fall back to muted video and unmute on the next click.
+  const playHostStream = (remoteStream: MediaStream) => {
+    const video = guestVideoRef.current;
+    video.srcObject = remoteStream;
+    video.muted = false;
+    video.play().catch(() => {
+        video.muted = true;
+        video.play().catch(e => console.error("Video play error", e));
+        if (remoteStream.getAudioTracks().length === 0) return;
+        showNotification("Click anywhere to enable game sound");
+        window.addEventListener('pointerdown', () => {
+            video.muted = false;
+            video.play().catch(e => console.error("Video play error", e));
+        }, { once: true });
+    });
+  };
+
+  // Host: refresh the port indicators and tell every guest where everyone sits now
+  const updateGuestPorts = () => {
+    const slots = Array.from(guestsRef.current.entries());
+    const ports = Array.from(new Set(slots.map(([, g]) => g.port))).sort();
+    const locked = ports.filter(port => port !== hostPortRef.current && slots.every(([, g]) => g.port !== port || g.locked));
+    setGuestPorts(ports);
+    setLockedPorts(locked);
+    setPlayerSeats([
+        { id: HOST_SEAT, label: 'Host (You)', port: hostPortRef.current, locked: false, isHost: true },
+        ...slots.map(([id, g]) => ({ id, label: g.name, port: g.port, locked: g.locked, isHost: false })),
+    ]);
+    slots.forEach(([, g]) => sendMessage(g.conn, {
+        type: 'PORT_MAP',
+        payload: { port: g.port, locked: g.locked, hostPort: hostPortRef.current, guestPorts: ports, lockedPorts: locked },
+    }));
+  };
+
+  const updateAwaitingPorts = () => {
+    setAwaitingPorts(Array.from(reservationsRef.current.values()).map(r => r.port).sort());
+  };
+
+  // The seat a returning guest held before it dropped, if the resume window is still open
+  const claimReservation = (peerIds: string[]): PortReservation | null => {
+    for (const id of peerIds) {
+        const reservation = reservationsRef.current.get(id);
+        if (reservation) {
+            clearTimeout(reservation.timer);
+            reservationsRef.current.delete(id);
+            updateAwaitingPorts();
+            return reservation;
+        }
+    }
+    return null;
+  };
+
+  // Lowest controller port that neither the host nor a connected (or returning) guest holds yet
+  const allocatePort = (): number | null => {
+    const taken = new Set([
+        hostPortRef.current,
+        ...Array.from(guestsRef.current.values()).map(g => g.port),
+        ...Array.from(reservationsRef.current.values()).map(r => r.port),
+    ]);
+    return CONTROLLER_PORTS.find(port => !taken.has(port)) ?? null;
+  };
+
+  // Host: keep the dropped guest's seat and optionally freeze the game until it returns
+  const reservePort = (peerId: string, { port, name, locked }: GuestSlot) => {
+    const timer = setTimeout(() => {
+        reservationsRef.current.delete(peerId);
+        updateAwaitingPorts();
+        showNotification(`P${port} did not return - slot released`);
+        resumeAfterDrop();
+    }, RESUME_WINDOW_MS);
+    reservationsRef.current.set(peerId, { port, name, locked, timer });
+    updateAwaitingPorts();
+    showNotification(`P${port} Disconnected - holding slot`);
+
+    // Lockstep handles a missing player by restarting without it
+    if (pauseOnDisconnectRef.current && netplayModeRef.current === NetplayMode.STREAM && consoleRef.current?.isRomLoaded) {
+        setPauseReason('disconnect', true);
+    }
+  };
+
+  const resumeAfterDrop = () => {
+    if (reservationsRef.current.size > 0) return;
+    setPauseReason('disconnect', false);
+  };
+
+  // --- Playback (host) ---
+
+  const currentPlayback = (): PlaybackPayload => {
+    const reason = PAUSE_REASON_ORDER.find(r => pauseReasonsRef.current.has(r)) ?? null;
+    return { paused: reason !== null, reason, rate: consoleRef.current?.speedRate ?? 1 };
+  };
+
+  // Shows the current pause and speed here and on every peer
+  const publishPlayback = () => {
+    const current = currentPlayback();
+    setPlayback(current);
+    setGameSpeed(consoleRef.current?.speed ?? 'normal');
+    broadcast({ type: 'PLAYBACK', payload: current });
+  };
+
+  const applyPause = () => {
+    const emulator = consoleRef.current;
+    // A lockstep core is always paused and stepped by the game loop, which holds back instead
+    if (!emulator?.isRomLoaded || emulator.isLockstep) return;
+    if (pauseReasonsRef.current.size > 0) emulator.pause();
+    else emulator.resume();
+  };
+
+  // The game stays paused until every reason for it is gone
+  const setPauseReason = (reason: PauseReason, active: boolean) => {
+    const reasons = pauseReasonsRef.current;
+    if (active === reasons.has(reason)) return;
+    if (active) reasons.add(reason);
+    else reasons.delete(reason);
+    applyPause();
+    publishPlayback();
+  };
+
+  const togglePause = () => {
+    if (!consoleRef.current?.isRomLoaded) return;
+    setPauseReason('host', !pauseReasonsRef.current.has('host'));
+  };
+
+  const changeSpeed = (speed: PlaybackSpeed) => {
+    if (!consoleRef.current?.isRomLoaded) return;
+    if (consoleRef.current.isLockstep) {
+        showNotification("Speed changes are off in lockstep mode");
+        return;
+    }
+    consoleRef.current.setSpeed(speed);
+    publishPlayback();
+  };
+
+  // Every open link on the host, players and spectators alike
+  const allConnections = (): DataConnection[] => [
+    ...Array.from(guestsRef.current.values()).map(g => g.conn),
+    ...Array.from(spectatorsRef.current.values()),
+  ];
+
+  const broadcast = (msg: PeerMessage) => {
+    allConnections().forEach(conn => sendMessage(conn, msg));
+  };
+
+  /**
+   * Validates everything that arrives on a link before it reaches handlePeerMessage.
+   * The first message must be a compatible HELLO; anything malformed, unknown or early is rejected.
+   */
+  const handleData = (connection: DataConnection, data: unknown, onHandshake: (hello: HelloPayload) => void) => {
+    let msg: PeerMessage;
+    try {
+        msg = parsePeerMessage(data);
+        if (msg.type === 'HELLO') {
+            if (handshakesRef.current.has(connection)) throw new ProtocolError('Duplicate HELLO');
+            checkHello(msg.payload);
+            handshakesRef.current.set(connection, msg.payload);
+            onHandshake(msg.payload);
+            return;
+        }
+        // A REJECT may legitimately arrive instead of the host's HELLO
+        if (!handshakesRef.current.has(connection) && msg.type !== 'REJECT') {
+            throw new ProtocolError(`${msg.type} received before HELLO handshake`);
+        }
+    } catch (e) {
+        if (!(e instanceof ProtocolError)) throw e;
+        console.error(`Rejected message from ${connection.peer}:`, e.message);
+        showNotification(`Protocol error: ${e.message}`);
+        if (!handshakesRef.current.has(connection)) {
+            // Without a handshake nothing else from this peer can be trusted
+            rejectPeer(connection, e.message);
+        }
+        return;
+    }
+    if (roleRef.current === ConnectionRole.HOST) {
+        // Host: nothing from a peer is processed until it has been let in,
+        // and then only what its role may send
+        if (!isAdmitted(connection)) return;
+        const isSpectator = spectatorsRef.current.get(connection.peer) === connection;
+        if (isSpectator ? !SPECTATOR_MESSAGES.has(msg.type) : HOST_ONLY_MESSAGES.has(msg.type)) {
+            console.warn(`Dropped ${msg.type} from ${isSpectator ? 'spectator' : 'guest'} ${connection.peer}`);
+            return;
+        }
+    }
+    handlePeerMessage(msg, connection);
+  };
+
+  const isAdmitted = (connection: DataConnection) =>
+    guestsRef.current.get(connection.peer)?.conn === connection || spectatorsRef.current.get(connection.peer) === connection;
+
+  // Tells the peer why, then disconnects it
+  const rejectPeer = (connection: DataConnection, reason: string) => {
+    sendMessage(connection, { type: 'REJECT', payload: { reason } });
+    // Give the message a moment to flush before tearing down the channel
+    setTimeout(() => connection.close(), 500);
+  };
+
+  /**
+   * Host: a peer passed the version check but still needs the session password and our approval.
+   * Our own HELLO goes out only when it is let in, so the peer waits until then.
+   */
+  const screenPeer = (connection: DataConnection, hello: HelloPayload, admit: (name: string) => void, options: { watching: boolean; resumed: boolean }) => {
+    if (sessionPasswordRef.current && hello.password !== sessionPasswordRef.current) {
+        rejectPeer(connection, hello.password ? 'Wrong password' : 'This session needs a password');
+        return;
+    }
+    const name = cleanDisplayName(hello.name ?? '');
+    const letIn = () => {
+        if (!connection.open) return;
+        sendMessage(connection, createHello());
+        admit(name);
+    };
+    // Someone we already accepted is just coming back from a dropped connection
+    if (options.resumed) {
+        letIn();
+        return;
+    }
+    requestConfirm({
+        title: options.watching ? 'Spectator Request' : 'Join Request',
+        message: `${name || 'Someone without a name'} wants to ${options.watching ? 'watch' : 'join'} this session.`,
+        confirmLabel: 'Accept',
+        cancelLabel: 'Decline',
+        onConfirm: () => {
+            if (!connection.open) {
+                showNotification(`${name || 'The player'} left before being accepted`);
+                return;
+            }
+            letIn();
+        },
+        onCancel: () => rejectPeer(connection, 'The host declined your request'),
+    });
+  };
+
+  const updateViewerCount = () => {
+    const count = spectatorsRef.current.size;
+    setViewerCount(count);
+    broadcast({ type: 'VIEWER_COUNT', payload: { count } });
+  };
+
+  // Bring a freshly joined peer up to date with the running session
+  const syncSession = (connection: DataConnection) => {
+    if (!consoleRef.current) return;
+    sendMessage(connection, { type: 'PLATFORM_CHANGE', payload: platformRef.current });
+    sendMessage(connection, { type: 'NETPLAY_MODE', payload: { mode: netplayModeRef.current } });
+    sendMessage(connection, { type: 'VIEWER_COUNT', payload: { count: spectatorsRef.current.size } });
+    sendMessage(connection, { type: 'PLAYBACK', payload: currentPlayback() });
+    if (romNameRef.current) {
+        sendMessage(connection, { type: 'ROM_LOAD', payload: { name: romNameRef.current } });
+        if (romInfoRef.current) sendMessage(connection, { type: 'ROM_INFO', payload: romInfoRef.current });
+        // Lockstep players run their own core; only spectators still need the video feed
+        if (netplayModeRef.current === NetplayMode.STREAM || spectatorsRef.current.has(connection.peer)) {
+            startStreaming(connection.peer);
+        }
+    }
+  };
+
+  // --- Lockstep ---
+
+  // Host: (re)start lockstep once every connected guest has loaded its copy of the ROM
+  const maybeStartLockstep = () => {
+    if (netplayModeRef.current !== NetplayMode.LOCKSTEP || !consoleRef.current?.isRomLoaded) return;
+    const allReady = Array.from(guestsRef.current.keys()).every(id => lockstepReadyRef.current.has(id));
+    if (allReady) startLockstep();
+  };
+
+  // Host: snapshot the running game and hand it to every ready guest so all cores start from the same frame
+  const startLockstep = async () => {
+    if (!consoleRef.current) return;
+
+    lockstepRef.current = null;
+    consoleRef.current.pause();
+    const state = await consoleRef.current.saveState();
+    if (!state) {
+        showNotification("Failed to start lockstep");
+        return;
+    }
+
+    separateSharedPorts();
+    const epoch = ++lockstepEpochRef.current;
+    const players = Array.from(guestsRef.current.entries()).filter(([id]) => lockstepReadyRef.current.has(id));
+    const ports = [hostPortRef.current, ...players.map(([, g]) => g.port)];
+    const buffer = await state.arrayBuffer();
+
+    players.forEach(([, { conn }]) => {
+        sendMessage(conn, { type: 'LOCKSTEP_START', payload: { epoch, ports, state: buffer } });
+    });
+    lockstepRef.current = new LockstepSession(epoch, hostPortRef.current, ports);
+    if (players.length > 0) showNotification(`Lockstep started with ${ports.length} players`);
+  };
+
+  // Guest: adopt the host's snapshot and join its lockstep run
+  const joinLockstep = async (payload: LockstepStartPayload) => {
+    const localPort = myPortRef.current;
+    if (!consoleRef.current?.isRomLoaded || localPort === null) return;
+
+    lockstepRef.current = null;
+    consoleRef.current.pause();
+    await consoleRef.current.loadState(new Blob([payload.state]));
+    lockstepRef.current = new LockstepSession(payload.epoch, localPort, payload.ports);
+    showNotification("Lockstep synced with host");
+  };
+
+  const handleLockstepInput = (payload: LockstepInputPayload, from: DataConnection) => {
+    const session = lockstepRef.current;
+    if (!session || payload.epoch !== session.epoch) return;
+
+    if (roleRef.current === ConnectionRole.HOST) {
+        // Trust our own port bookkeeping over whatever the guest claims, then relay to the other players
+        const slot = guestsRef.current.get(from.peer);
+        if (!slot) return;
+        const relayed = { ...payload, port: slot.port, input: slot.locked ? NO_INPUT : payload.input };
+        session.receiveRemoteInput(slot.port, payload.frame, relayed.input);
+        guestsRef.current.forEach(({ conn }, id) => {
+            if (id !== from.peer) sendMessage(conn, { type: 'LOCKSTEP_INPUT', payload: relayed });
+        });
+    } else {
+        session.receiveRemoteInput(payload.port, payload.frame, payload.input);
+    }
+  };
+
+  // Local input for the next lockstep frame, and one step of the core once everyone's input is in
+  const tickLockstep = (session: LockstepSession, myInput: ControllerInput) => {
+    // Frames follow the system's own rate rather than the display's, so a 144 Hz screen doesn't speed everyone up
+    const clock = lockstepClockRef.current;
+    const now = performance.now();
+    if (clock.session !== session) {
+        lockstepClockRef.current = { session, lastAt: now, owedMs: 0 };
+        return;
+    }
+    const frameMs = 1000 / getPlatformInfo(platformRef.current).frameRate;
+    clock.owedMs = Math.min(clock.owedMs + now - clock.lastAt, frameMs * LOCKSTEP_MAX_OWED_FRAMES);
+    clock.lastAt = now;
+    if (clock.owedMs < frameMs) return;
+
+    const frame = session.scheduleLocalInput(myInput);
+    if (frame !== null) {
+        const msg: PeerMessage = { type: 'LOCKSTEP_INPUT', payload: { epoch: session.epoch, frame, port: session.localPort, input: myInput } };
+        if (roleRef.current === ConnectionRole.HOST) {
+            guestsRef.current.forEach(({ conn }) => sendMessage(conn, msg));
+        } else if (connRef.current) {
+            sendMessage(connRef.current, msg);
+        }
+    }
+
+    const inputs = session.advance();
+    if (inputs && consoleRef.current) {
+        clock.owedMs -= frameMs;
+        consoleRef.current.applyInputs(inputs);
+        consoleRef.current.stepFrame();
+    }
+  };
+
+  // Host side: spectators only receive the stream and never take a controller port
+  const handleSpectatorConnection = (connection: DataConnection) => {
+    const admitSpectator = (name: string) => {
+      spectatorsRef.current.set(connection.peer, connection);
+      showNotification(name ? `${name} is watching` : 'A spectator joined');
+      updateViewerCount();
+      syncSession(connection);
+    };
+
+    connection.on('data', (data: unknown) => {
+      handleData(connection, data, (hello) => screenPeer(connection, hello, admitSpectator, { watching: true, resumed: false }));
+    });
+
+    connection.on('close', () => {
+      if (spectatorsRef.current.get(connection.peer) !== connection) return;
+      spectatorsRef.current.delete(connection.peer);
+      updateViewerCount();
+    });
+  };
+
+  // Host: apply one binary input packet from a guest; stale or out-of-order packets are dropped by sequence number
+  const applyInputPacket = (peerId: string, data: unknown) => {
+    // In lockstep, inputs only reach the core through LOCKSTEP_INPUT
+    const slot = guestsRef.current.get(peerId);
+    if (!slot || !consoleRef.current || lockstepRef.current) return;
+    try {
+        const packet = decodeInputPacket(data);
+        if (slot.lastSeq !== undefined && packet.seq <= slot.lastSeq) return;
+        slot.lastSeq = packet.seq;
+        slot.input = packet.input;
+        applyPort(slot.port);
+    } catch (e) {
+        if (!(e instanceof ProtocolError)) throw e;
+        console.warn(`Dropped input from ${peerId}:`, e.message);
+    }
+  };
+
+  // Host: drive one port with the merged input of everyone on it; locked guests count as idle
+  const applyPort = (port: number) => {
+    if (!consoleRef.current?.isRomLoaded || lockstepRef.current) return;
+    const inputs = Array.from(guestsRef.current.values()).filter(g => g.port === port && !g.locked).map(g => g.input);
+    if (hostPortRef.current === port) inputs.push(hostInputRef.current);
+    consoleRef.current.updateGuestInput(mergeInputs(inputs), port);
+  };
+
+  // Host side: a guest's unordered input channel, opened next to its already handshaken main link
+  const handleInputChannel = (connection: DataConnection) => {
+    connection.on('open', () => {
+      inputChannelsRef.current.get(connection.peer)?.close();
+      inputChannelsRef.current.set(connection.peer, connection);
+    });
+
+    connection.on('data', (data: unknown) => {
+      applyInputPacket(connection.peer, data);
+    });
+
+    connection.on('close', () => {
+      if (inputChannelsRef.current.get(connection.peer) === connection) {
+        inputChannelsRef.current.delete(connection.peer);
+      }
+    });
+  };
+
+  // Host side: every incoming guest claims the next free controller port
+  const handleConnection = (connection: DataConnection) => {
+    if (connection.label === INPUT_CHANNEL) {
+      handleInputChannel(connection);
+      return;
+    }
+
+    if (connection.metadata?.role === ConnectionRole.SPECTATOR) {
+      handleSpectatorConnection(connection);
+      return;
+    }
+
+    // A returning guest keeps its peer id if its Peer survived, otherwise it tells us the old one
+    const previousIds: string[] = [connection.peer, connection.metadata?.previousId].filter(Boolean);
+
+    // Ports are only handed out once the guest has proven a compatible build and been let in
+    const admitGuest = (name: string) => {
+      const resumed = claimReservation(previousIds);
+      const port = resumed?.port ?? allocatePort();
+      if (port === null) {
+          rejectPeer(connection, 'Session is full');
+          return;
+      }
+
+      guestsRef.current.set(connection.peer, {
+          conn: connection,
+          port,
+          name: resumed?.name ?? (name || `Guest ${++guestSeqRef.current}`),
+          locked: resumed?.locked ?? false, // Reconnecting doesn't lift a lock
+          input: { ...NO_INPUT },
+      });
+      updateGuestPorts();
+      showNotification(resumed ? `P${port} Reconnected!` : `P${port} Connected!`);
+      resumeAfterDrop();
+
+      sendMessage(connection, { type: 'PLAYER_ASSIGN', payload: { port } });
+      syncSession(connection);
+    };
+
+    connection.on('data', (data: unknown) => {
+        handleData(connection, data, (hello) => {
+            // Back before we noticed its old link drop: retire that link so the guest resumes its own seat
+            const stale = guestsRef.current.get(connection.peer);
+            if (stale && stale.conn !== connection) {
+                dropGuest(connection.peer, stale);
+                stale.conn.close();
+            }
+            const resumed = previousIds.some(id => reservationsRef.current.has(id));
+            // Don't keep someone waiting on a prompt for a seat that doesn't exist
+            if (!resumed && allocatePort() === null) {
+                rejectPeer(connection, 'Session is full');
+                return;
+            }
+            screenPeer(connection, hello, admitGuest, { watching: false, resumed });
+        });
+    });
+
+    connection.on('close', () => {
+      const slot = guestsRef.current.get(connection.peer);
+      if (!slot || slot.conn !== connection) return;
+      dropGuest(connection.peer, slot);
+    });
+  };
+
+  // Host: a guest's link is gone; its seat is held for it to come back
+  const dropGuest = (peerId: string, slot: GuestSlot) => {
+    guestsRef.current.delete(peerId);
+    lockstepReadyRef.current.delete(peerId);
+    inputChannelsRef.current.get(peerId)?.close();
+    voiceCallsRef.current.get(peerId)?.close();
+    const upload = uploadsRef.current.get(peerId);
+    if (upload) {
+      uploadsRef.current.delete(peerId);
+      removeTransfer(upload.id);
+    }
+    updateGuestPorts();
+    reservePort(peerId, slot);
+    // Releases whatever the guest held, without touching anyone sharing the port
+    applyPort(slot.port);
+    // A lockstep run would stall forever waiting on the departed port
+    if (lockstepRef.current?.ports.includes(slot.port)) {
+      startLockstep();
+    }
+  };
+
+  // Guest/Spectator side: the single link to the host
+  const handleHostConnection = (connection: DataConnection) => {
+    connRef.current = connection;
+
+    connection.on('open', () => {
+      sendMessage(connection, createHello(joinIdentityRef.current));
+    });
+
+    connection.on('data', (data: unknown) => {
+        handleData(connection, data, () => {
+            const wasReconnecting = reconnectRef.current.isActive;
+            reconnectRef.current.succeed();
+            showNotification(wasReconnecting ? 'Reconnected to Host!' : 'Connected to Host!');
+            if (roleRef.current === ConnectionRole.GUEST) openInputChannel(connection.peer);
+            // Rejoin voice after a reconnect
+            if (voiceActiveRef.current) callHostVoice();
+        });
+    });
+
+    connection.on('close', () => {
+      // A superseded attempt closing late must not tear down the current link
+      if (connRef.current !== connection) return;
+      connRef.current = null;
+      inputChannelRef.current?.close();
+      inputChannelRef.current = null;
+      romRequestPendingRef.current = false;
+      if (downloadRef.current) {
+          removeTransfer(downloadRef.current.id);
+          downloadRef.current = null;
+      }
+      setMyPort(null);
+      portLockedRef.current = false;
+      setPortLocked(false);
+      lockstepRef.current = null;
+
+      if (wasRejectedRef.current) {
+          showNotification('Host Disconnected');
+      } else {
+          reconnectRef.current.start();
+      }
+    });
+  };
+
+  // Guest: stream-mode input goes over its own unordered channel so a lost packet never holds up newer ones
+  const openInputChannel = (hostId: string) => {
+    if (!peerRef.current) return;
+    inputChannelRef.current?.close();
+    const channel = peerRef.current.connect(hostId, { label: INPUT_CHANNEL, serialization: 'raw', reliable: false });
+    inputChannelRef.current = channel;
+    lastInputMaskRef.current = null;
+    channel.on('close', () => {
+      if (inputChannelRef.current === channel) inputChannelRef.current = null;
+    });
+  };
+
+  // Guest: send our input only when it changed, plus a periodic keepalive
+  const sendInput = (conn: DataConnection, input: ControllerInput) => {
+    const mask = inputToMask(input);
+    const now = performance.now();
+    if (mask === lastInputMaskRef.current && now - lastInputSentAtRef.current < INPUT_KEEPALIVE_MS) return;
+
+    lastInputMaskRef.current = mask;
+    lastInputSentAtRef.current = now;
+    const packet = encodeInputPacket(input, ++inputSeqRef.current);
+
+    // Until the input channel is up, the reliable link carries the same packet
+    const channel = inputChannelRef.current;
+    if (channel?.open) {
+        channel.send(packet);
+    } else {
+        sendMessage(conn, { type: 'INPUT', payload: packet });
+    }
+  };
+
+  // Guest: one reconnect attempt to the same host, reusing our Peer (and thus our id) when it is still usable
+  const reconnectToHost = () => {
+    const hostId = hostIdRef.current;
+    if (!hostId) return;
+
+    // Drop a previous attempt that never opened
+    const pending = connRef.current;
+    connRef.current = null;
+    pending?.close();
+
+    const metadata = { role: roleRef.current, previousId: peerRef.current?.id };
+    const current = peerRef.current;
+    if (current && !current.destroyed && !current.disconnected) {
+        handleHostConnection(current.connect(hostId, { metadata }));
+        return;
+    }
+
+    const p = initPeer();
+    p.on('open', () => {
+        handleHostConnection(p.connect(hostId, { metadata }));
+    });
+  };
+
+  // Encoder limits for one streamed peer: its auto mode step, or the fixed preset/manual settings
+  const streamSettingsFor = (peerId: string): StreamQualitySettings => {
+    const config = streamQualityRef.current;
+    if (config.preset !== StreamQualityPreset.AUTO) return resolveQuality(config);
+    let controller = autoQualityRef.current.get(peerId);
+    if (!controller) {
+        controller = new AutoQualityController();
+        autoQualityRef.current.set(peerId, controller);
+    }
+    return controller.settings;
+  };
+
+  const startStreaming = (destId: string) => {
+      if (!peerRef.current || !consoleRef.current) return;
+      try {
+          const config = streamQualityRef.current;
+          const stream = consoleRef.current.captureStream(captureFps(config));
+          currentStream.current = stream;
+          // Replace any earlier call to this peer (e.g. after a ROM change) so stats follow the live one
+          callsRef.current.get(destId)?.close();
+          const call = peerRef.current.call(destId, stream, { sdpTransform: preferCodec(resolveQuality(config).codec) });
+          callsRef.current.set(destId, call);
+          // Sender parameters can only be set once the connection has negotiated its encodings
+          call.peerConnection?.addEventListener('connectionstatechange', () => {
+              if (call.peerConnection.connectionState === 'connected') {
+                  applySenderQuality(call.peerConnection, streamSettingsFor(destId));
+              }
+          });
+          call.on('close', () => {
+              if (callsRef.current.get(destId) !== call) return;
+              callsRef.current.delete(destId);
+              autoQualityRef.current.delete(destId);
+          });
+          console.log("Started streaming to", destId);
+      } catch (e) {
+          console.error("Failed to capture stream", e);
+      }
+  };
+
+  const handlePeerMessage = (msg: PeerMessage, from: DataConnection) => {
+    if (!consoleRef.current) return;
+
+    switch (msg.type) {
+        case 'INPUT':
+            if (roleRef.current === ConnectionRole.HOST) {
+               applyInputPacket(from.peer, msg.payload);
+            }
+            break;
+        case 'PLAYER_ASSIGN':
+            if (roleRef.current === ConnectionRole.HOST) break;
+            myPortRef.current = msg.payload.port;
+            setMyPort(msg.payload.port);
+            showNotification(`You are Player ${msg.payload.port}`);
+            break;
+        case 'PORT_MAP':
+            if (roleRef.current === ConnectionRole.GUEST) handlePortMap(msg.payload);
+            break;
+        case 'PLAYBACK':
+            if (roleRef.current !== ConnectionRole.HOST) setPlayback(msg.payload);
+            break;
+        case 'REJECT':
+            if (roleRef.current === ConnectionRole.HOST) break;
+            wasRejectedRef.current = true;
+            reconnectRef.current.stop();
+            setRejection(msg.payload.reason);
+            break;
+        case 'NETPLAY_MODE':
+            if (roleRef.current === ConnectionRole.HOST) break;
+            setNetplayMode(msg.payload.mode);
+            lockstepRef.current = null;
+            break;
+        case 'LOCKSTEP_READY':
+            if (roleRef.current === ConnectionRole.HOST && guestsRef.current.has(from.peer)) {
+                if (msg.payload.name !== romNameRef.current) {
+                    showNotification(`Guest loaded ${msg.payload.name} - expected ${romNameRef.current}`);
+                }
+                lockstepReadyRef.current.add(from.peer);
+                maybeStartLockstep();
+            }
+            break;
+        case 'LOCKSTEP_START':
+            if (roleRef.current === ConnectionRole.GUEST) {
+                joinLockstep(msg.payload);
+            }
+            break;
+        case 'LOCKSTEP_INPUT':
+            handleLockstepInput(msg.payload, from);
+            break;
+        case 'PING':
+            sendMessage(from, { type: 'PONG', payload: msg.payload });
+            break;
+        case 'PONG':
+            latencyRef.current.get(from.peer)?.recordPong(msg.payload.sentAt);
+            break;
+        case 'VIEWER_COUNT':
+            if (roleRef.current !== ConnectionRole.HOST) setViewerCount(msg.payload.count);
+            break;
+        case 'SAVE_RESTORE':
+            handleSaveRestore(msg.payload, from);
+            break;
+        case 'ROM_INFO':
+            if (roleRef.current !== ConnectionRole.HOST) {
+                romInfoRef.current = msg.payload;
+                setHostRomInfo(msg.payload);
+            }
+            break;
+        case 'ROM_REQUEST':
+            if (roleRef.current === ConnectionRole.HOST) {
+                handleRomRequest(msg.payload.name, from);
+            }
+            break;
+        case 'ROM_TRANSFER_START':
+            handleRomTransferStart(msg.payload, from);
+            break;
+        case 'ROM_CHUNK':
+            handleRomChunk(msg.payload.transferId, msg.payload.index, msg.payload.data, from);
+            break;
+        case 'ROM_CHUNK_ACK': {
+            const upload = uploadsRef.current.get(from.peer);
+            if (upload?.id === msg.payload.transferId) upload.handleAck(msg.payload.index);
+            break;
+        }
+        case 'ROM_TRANSFER_CANCEL':
+            handleRomTransferCancel(msg.payload.transferId, msg.payload.reason, from);
+            break;
+        case 'VOICE_ACTIVITY':
+            if (roleRef.current !== ConnectionRole.HOST) {
+                setSpeakingPorts(msg.payload.ports);
+            }
+            break;
+        case 'CHAT':
+            if (roleRef.current === ConnectionRole.HOST) {
+                relayChat(msg.payload.text, msg.payload.sentAt, from);
+            } else {
+                addChatMessage(msg.payload.sender ?? 'P1', msg.payload.text, msg.payload.sentAt, false);
+            }
+            break;
+        case 'STATE_UPDATE':
+            if (roleRef.current !== ConnectionRole.HOST) {
+                consoleRef.current.setState(msg.payload);
+            }
+            break;
+        case 'PLATFORM_CHANGE':
+            if (roleRef.current === ConnectionRole.HOST) break;
+            setPlatform(msg.payload);
+            setRomName(null); 
+            consoleRef.current.setPlatform(msg.payload);
+            showNotification(`Host switched core to ${msg.payload}`);
+            break;
+        case 'ROM_LOAD':
+            if (roleRef.current === ConnectionRole.HOST) break;
+            // A new game invalidates the previous ROM's hash and any download of it
+            romInfoRef.current = null;
+            setHostRomInfo(null);
+            if (downloadRef.current && downloadRef.current.info.name !== msg.payload.name) {
+                cancelRomTransfer(downloadRef.current.id, 'Host changed the game');
+            }
+            setRomName(msg.payload.name);
+            // Sync the name to the Guest's VirtualConsole so the "Remote Play" text can be hidden
+            consoleRef.current.romName = msg.payload.name;
+            if (netplayModeRef.current === NetplayMode.LOCKSTEP && roleRef.current === ConnectionRole.GUEST) {
+                lockstepRef.current = null;
+                showNotification(`Load your copy of ${msg.payload.name} to join`);
+                setIsSettingsOpen(true);
+            } else {
+                showNotification(`Loaded Game: ${msg.payload.name}`);
+            }
+            break;
+    }
+  };
+
+  // --- ROM Transfer ---
+
+  // Progress is only pushed to React when the whole percentage changes
+  const reportTransfer = (progress: RomTransferProgress) => {
+    const pct = progress.bytesTotal > 0 ? Math.floor((progress.bytesDone / progress.bytesTotal) * 100) : 0;
+    if (transferPctRef.current.get(progress.id) === pct) return;
+    transferPctRef.current.set(progress.id, pct);
+    setRomTransfers(prev => ({ ...prev, [progress.id]: progress }));
+  };
+
+  const removeTransfer = (id: string) => {
+    transferPctRef.current.delete(id);
+    setRomTransfers(prev => {
+        const { [id]: _, ...rest } = prev;
+        return rest;
+    });
+  };
+
+  // Host: every outgoing transfer ends when the game changes or powers off
+  const cancelAllUploads = (reason: string) => {
+    uploadsRef.current.forEach(upload => {
+        upload.cancel(reason);
+        removeTransfer(upload.id);
+    });
+    uploadsRef.current.clear();
+  };
+
+  // Host: tell everyone the running ROM's hash, so guests can verify or download it
+  // Multi-file games are identified by their first file, the cue sheet or playlist
+  const announceRomInfo = (rom: RomSet, hash: RomHash): RomInfo => {
+    const file = rom.files[0];
+    romInfoRef.current = { name: file.name, size: file.size, ...hash };
+    broadcast({ type: 'ROM_INFO', payload: romInfoRef.current });
+    return romInfoRef.current;
+  };
+
+  // --- Battery saves (host) ---
+
+  // Stores the running game's save RAM if it changed since it was last stored
+  const flushSaveRam = () => {
+    const session = saveRamSessionRef.current;
+    if (!session || !consoleRef.current) return;
+    const data = consoleRef.current.readSaveRam();
+    if (!data || (session.stored && sameBytes(data, session.stored))) return;
+    const stored = data.slice();
+    session.stored = stored;
+    putSaveRam({ romId: session.romId, romName: session.romName, savedAt: Date.now(), data: new Blob([stored]) })
+        .catch(e => console.warn('Failed to store battery save', e));
+  };
+
+  const endSaveRamSession = () => {
+    flushSaveRam();
+    saveRamSessionRef.current = null;
+  };
+
+  const exportSaveRam = () => {
+    const session = saveRamSessionRef.current;
+    const data = session && consoleRef.current?.readSaveRam();
+    if (!session || !data) {
+        showNotification(romNameRef.current ? `${romNameRef.current} has no battery save yet` : "Load a game first");
+        return;
+    }
+    flushSaveRam();
+    downloadBlob(new Blob([data.slice()]), `${session.romName.replace(/\.[^/.]+$/, '')}.srm`);
+  };
+
+  // RetroArch only reads save RAM when a game starts, so an imported one restarts it
+  const importSaveRam = () => {
+    const session = saveRamSessionRef.current;
+    const rom = romSetRef.current;
+    if (!session || !rom) {
+        showNotification("Load a game first");
+        return;
+    }
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.srm,.sav';
+    input.onchange = (e: Event) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+        requestConfirm({
+            title: 'Import Battery Save',
+            message: `Replace the battery save of ${session.romName} with ${file.name}? The game restarts to load it, losing progress since its last in-game save.`,
+            confirmLabel: 'Import',
+            onConfirm: async () => {
+                if (saveRamSessionRef.current !== session) return; // The game changed meanwhile
+                // Stop keeping the running copy, or it would replace the import
+                saveRamSessionRef.current = null;
+                try {
+                    await putSaveRam({ romId: session.romId, romName: session.romName, savedAt: Date.now(), data: file });
+                } catch (err) {
+                    console.error(err);
+                    showNotification("Failed to store battery save");
+                    saveRamSessionRef.current = session;
+                    return;
+                }
+                loadHostRom(rom, platformRef.current);
+            },
+        });
+    };
+    input.click();
+  };
+
+  // --- ROM library (host) ---
+
+  // Adds the time since the last flush to the running game's library entry
+  const flushPlayTime = () => {
+    const session = playSessionRef.current;
+    if (!session) return;
+    const now = Date.now();
+    addPlayTime(session.id, now - session.startedAt).catch(e => console.warn('Failed to record play time', e));
+    session.startedAt = now;
+  };
+
+  const endPlaySession = () => {
+    flushPlayTime();
+    playSessionRef.current = null;
+  };
+
+  const rememberLaunch = async (rom: RomSet, platform: Platform, info: RomInfo) => {
+    playSessionRef.current = { id: libraryId(info), startedAt: Date.now() };
+    if (!libraryEnabled) return;
+    try {
+        await rememberRom(rom, platform, info);
+    } catch (e) {
+        console.warn('Failed to add game to library', e);
+        showNotification(`Couldn't save ${rom.name} to the library`);
+    }
+  };
+
+  const toggleLibraryEnabled = (enabled: boolean) => {
+    setLibraryEnabled(enabled);
+    saveLibraryEnabled(enabled);
+  };
+
+  const launchFromLibrary = (entry: LibraryEntry) => {
+    setIsLibraryOpen(false);
+    const rom = entryToRomSet(entry);
+    if (roleRef.current !== ConnectionRole.HOST) {
+        handleLocalRomSelect(rom);
+        return;
+    }
+    resumeAudio();
+    loadHostRom(rom, entry.platform);
+  };
+
+  // Host: a guest asked for our ROM
+  const handleRomRequest = async (name: string, from: DataConnection) => {
+    const slot = guestsRef.current.get(from.peer);
+    const rom = romSetRef.current;
+    const info = romInfoRef.current;
+    if (!slot) return;
+    if (!rom || !info || info.name !== name) {
+        sendMessage(from, { type: 'ROM_TRANSFER_CANCEL', payload: { transferId: '', reason: 'Host is not running that ROM' } });
+        return;
+    }
+    if (rom.files.length > 1) {
+        sendMessage(from, { type: 'ROM_TRANSFER_CANCEL', payload: { transferId: '', reason: 'Disc images with several files can\'t be sent - load your own copy' } });
+        return;
+    }
+    const file = rom.files[0];
+    if (file.size > MAX_ROM_BYTES) {
+        sendMessage(from, { type: 'ROM_TRANSFER_CANCEL', payload: { transferId: '', reason: 'ROM is too large to send - load your own copy' } });
+        return;
+    }
+
+    const previous = uploadsRef.current.get(from.peer);
+    if (previous) {
+        previous.cancel('Restarted');
+        removeTransfer(previous.id);
+    }
+
+    const id = `${Date.now().toString(36)}-${++transferSeqRef.current}`;
+    const label = `P${slot.port}`;
+    const upload = new RomTransferSender(id, info, await file.arrayBuffer(), msg => sendMessage(from, msg), (bytesDone) => {
+        if (!upload.isFinished) {
+            reportTransfer({ id, name: info.name, label, direction: 'upload', bytesDone, bytesTotal: info.size });
+            return;
+        }
+        uploadsRef.current.delete(from.peer);
+        removeTransfer(id);
+        showNotification(`Sent ${info.name} to ${label}`);
+    });
+    uploadsRef.current.set(from.peer, upload);
+    reportTransfer({ id, name: info.name, label, direction: 'upload', bytesDone: 0, bytesTotal: info.size });
+    upload.start();
+  };
+
+  // Guest: ask the host for the ROM it is running
+  const requestRomFromHost = () => {
+    const info = romInfoRef.current;
+    if (!connRef.current || !info || downloadRef.current) return;
+    romRequestPendingRef.current = true;
+    sendMessage(connRef.current, { type: 'ROM_REQUEST', payload: { name: info.name } });
+    showNotification(`Requesting ${info.name} from host...`);
+  };
+
+  const handleRomTransferStart = (payload: RomTransferStartPayload, from: DataConnection) => {
+    if (roleRef.current !== ConnectionRole.GUEST || !romRequestPendingRef.current) {
+        sendMessage(from, { type: 'ROM_TRANSFER_CANCEL', payload: { transferId: payload.transferId, reason: 'Not requested' } });
+        return;
+    }
+    romRequestPendingRef.current = false;
+    downloadRef.current = new RomTransferReceiver(payload);
+    reportTransfer({ id: payload.transferId, name: payload.info.name, label: 'Host', direction: 'download', bytesDone: 0, bytesTotal: payload.info.size });
+  };
+
+  const handleRomChunk = async (transferId: string, index: number, data: ArrayBuffer, from: DataConnection) => {
+    const download = downloadRef.current;
+    if (!download || download.id !== transferId || !download.receiveChunk(index, data)) return;
+    sendMessage(from, { type: 'ROM_CHUNK_ACK', payload: { transferId, index } });
+    reportTransfer({ id: transferId, name: download.info.name, label: 'Host', direction: 'download', bytesDone: download.bytesReceived, bytesTotal: download.info.size });
+    if (!download.isComplete) return;
+
+    downloadRef.current = null;
+    removeTransfer(transferId);
+    const file = await download.assemble();
+    if (!file) {
+        showNotification(`${download.info.name} failed verification - try again`);
+        return;
+    }
+    showNotification(`Received ${file.name}`);
+    handleLocalRomSelect(singleRom(file), true);
+  };
+
+  const handleRomTransferCancel = (transferId: string, reason: string, from: DataConnection) => {
+    const upload = uploadsRef.current.get(from.peer);
+    if (upload?.id === transferId) {
+        uploadsRef.current.delete(from.peer);
+        removeTransfer(transferId);
+        return;
+    }
+    const download = downloadRef.current;
+    if (download?.id === transferId || (transferId === '' && romRequestPendingRef.current)) {
+        romRequestPendingRef.current = false;
+        downloadRef.current = null;
+        removeTransfer(transferId);
+        showNotification(`ROM transfer cancelled: ${reason}`);
+    }
+  };
+
+  // Either side: abort a transfer from the UI and let the other end know
+  const cancelRomTransfer = (id: string, reason: string = 'Cancelled') => {
+    const upload = Array.from(uploadsRef.current.entries()).find(([, u]) => u.id === id);
+    if (upload) {
+        upload[1].cancel(reason);
+        uploadsRef.current.delete(upload[0]);
+    }
+    if (downloadRef.current?.id === id) {
+        downloadRef.current = null;
+        if (connRef.current) sendMessage(connRef.current, { type: 'ROM_TRANSFER_CANCEL', payload: { transferId: id, reason } });
+    }
+    removeTransfer(id);
+  };
+
+  // --- Port Assignment ---
+
+  const seatPort = (id: string) => id === HOST_SEAT ? hostPortRef.current : guestsRef.current.get(id)?.port;
+
+  // Host: re-drive every port and resync the guests; a lockstep run restarts since its ports are fixed per run
+  const portsChanged = () => {
+    setHostPort(hostPortRef.current);
+    updateGuestPorts();
+    if (lockstepRef.current) startLockstep();
+    else CONTROLLER_PORTS.forEach(applyPort);
+  };
+
+  // Host: move a player to a port; whoever sat there takes the player's old port
+  const assignPort = (id: string, port: number) => {
+    const from = seatPort(id);
+    if (from === undefined || from === port) return;
+
+    if (hostPortRef.current === port) hostPortRef.current = from;
+    guestsRef.current.forEach((slot, guestId) => {
+        if (guestId !== id && slot.port === port) slot.port = from;
+    });
+    reservationsRef.current.forEach((reservation) => {
+        if (reservation.port === port) reservation.port = from;
+    });
+    if (id === HOST_SEAT) hostPortRef.current = port;
+    else guestsRef.current.get(id)!.port = port;
+
+    updateAwaitingPorts();
+    portsChanged();
+  };
+
+  // Host: let a guest drive the host's port together with the host, or give it a port of its own again
+  const toggleSharedPort = (id: string) => {
+    const slot = guestsRef.current.get(id);
+    if (!slot) return;
+    if (slot.port === hostPortRef.current) {
+        const free = allocatePort();
+        if (free === null) return;
+        slot.port = free;
+    } else {
+        // Lockstep exchanges inputs per port, so a port can't have two drivers there
+        if (netplayModeRef.current === NetplayMode.LOCKSTEP) return;
+        slot.port = hostPortRef.current;
+    }
+    portsChanged();
+  };
+
+  const toggleGuestLock = (id: string) => {
+    const slot = guestsRef.current.get(id);
+    if (!slot) return;
+    slot.locked = !slot.locked;
+    showNotification(slot.locked ? `${slot.name}'s input locked` : `${slot.name}'s input unlocked`);
+    portsChanged();
+  };
+
+  // Host: lockstep can't merge inputs, so anyone sharing a port gets a free one of its own first
+  const separateSharedPorts = () => {
+    const taken = new Set([hostPortRef.current]);
+    let moved = false;
+    guestsRef.current.forEach((slot) => {
+        if (taken.has(slot.port)) {
+            const free = allocatePort();
+            if (free === null) return;
+            slot.port = free;
+            moved = true;
+        }
+        taken.add(slot.port);
+    });
+    if (moved) updateGuestPorts();
+  };
+
+  // Guest: the host moved, shared or locked controller ports
+  const handlePortMap = (map: PortMapPayload) => {
+    if (myPortRef.current !== null && map.port !== myPortRef.current) {
+        showNotification(`You are now Player ${map.port}`);
+    } else if (map.locked !== portLockedRef.current) {
+        showNotification(map.locked ? 'The host locked your controller' : 'Your controller is unlocked');
     }
+    // Refs first: a LOCKSTEP_START right behind this message must already see the new port
+    myPortRef.current = map.port;
+    portLockedRef.current = map.locked;
+    setMyPort(map.port);
+    setPortLocked(map.locked);
+    setHostPort(map.hostPort);
+    setGuestPorts(map.guestPorts);
+    setLockedPorts(map.lockedPorts);
+  };
 
-    const newPeer = new Peer(); 
-    peerRef.current = newPeer;
+  // --- Shared Save States ---
 
-    newPeer.on('open', (id) => {
-      setMyId(id);
-      setIsConnecting(false);
-    });
+  const requestConfirm = (request: ConfirmRequest) => {
+    setConfirmQueue(prev => [...prev, request]);
+  };
 
-    newPeer.on('connection', (connection) => {
-      handleConnection(connection);
-    });
+  // The running ROM as both sides know it: its name, plus the host's CRC32 once announced
+  const currentRomCrc32 = () => romInfoRef.current?.name === romNameRef.current ? romInfoRef.current?.crc32 ?? null : null;
 
-    newPeer.on('call', (call) => {
-        console.log("Receiving call (Stream)...");
-        call.answer(undefined); 
-        call.on('stream', (remoteStream) => {
-            console.log("Stream received!");
-            guestVideoRef.current.srcObject = remoteStream;
-            guestVideoRef.current.play().catch(e => console.error("Video play error", e));
-        });
+  // A state only applies to the exact ROM it was made with; one that can't be checked by CRC doesn't apply
+  const matchesCurrentRom = (payload: Pick<SaveRestorePayload, 'romName' | 'romCrc32'>) => {
+    if (!romNameRef.current || payload.romName !== romNameRef.current) return false;
+    const crc = currentRomCrc32();
+    return !!crc && payload.romCrc32 === crc;
+  };
+
+  // Host: send the current state to every player
+  const shareStateWithGuests = () => {
+    const count = guestsRef.current.size;
+    if (!consoleRef.current?.isRomLoaded || count === 0) return;
+    requestConfirm({
+        title: 'Send Save State',
+        message: `Send the current state of ${romNameRef.current} to ${count} player${count === 1 ? '' : 's'}? They can keep it in their library.`,
+        confirmLabel: 'Send',
+        onConfirm: async () => {
+            const blob = await consoleRef.current?.saveState();
+            if (!blob || !romNameRef.current) {
+                showNotification("Failed to save state");
+                return;
+            }
+            const payload: SaveRestorePayload = { romName: romNameRef.current, romCrc32: currentRomCrc32(), state: await blob.arrayBuffer() };
+            guestsRef.current.forEach(({ conn }) => sendMessage(conn, { type: 'SAVE_RESTORE', payload }));
+            showNotification("Save state sent");
+        },
     });
+  };
 
-    newPeer.on('disconnected', () => {
-        console.log("Peer disconnected from signaling server.");
-        if (newPeer && !newPeer.destroyed) {
-            newPeer.reconnect();
+  const handleSaveRestore = (payload: SaveRestorePayload, from: DataConnection) => {
+    if (roleRef.current === ConnectionRole.HOST) {
+        const slot = guestsRef.current.get(from.peer);
+        if (!slot) return;
+        if (!consoleRef.current?.isRomLoaded || !matchesCurrentRom(payload)) {
+            showNotification(`P${slot.port} sent a state for ${payload.romName} - not the running game`);
+            return;
         }
+        requestConfirm({
+            title: `Save State from P${slot.port}`,
+            message: `P${slot.port} wants to load a save state for ${payload.romName}. This replaces the current progress for everyone.`,
+            confirmLabel: 'Load',
+            cancelLabel: 'Decline',
+            onConfirm: async () => {
+                // The game may have changed while the prompt was open
+                if (!consoleRef.current || !matchesCurrentRom(payload)) return;
+                try {
+                    await consoleRef.current.loadState(new Blob([payload.state]));
+                    if (lockstepRef.current) startLockstep();
+                    showNotification(`Loaded state from P${slot.port}`);
+                } catch (e) {
+                    showNotification("Failed to load state");
+                }
+            },
+        });
+        return;
+    }
+
+    if (roleRef.current !== ConnectionRole.GUEST) return;
+    if (!matchesCurrentRom(payload)) {
+        showNotification(`Ignored a save state for ${payload.romName} - not the running game`);
+        return;
+    }
+    requestConfirm({
+        title: 'Save State from Host',
+        message: `The host sent a save state for ${payload.romName}. Keep it in your library?`,
+        confirmLabel: 'Keep',
+        cancelLabel: 'Discard',
+        onConfirm: () => {
+            const entry: SharedState = { id: ++sharedStateIdRef.current, romName: payload.romName, romCrc32: payload.romCrc32, from: 'Host', receivedAt: Date.now(), state: payload.state };
+            setSharedStates(prev => [entry, ...prev]);
+            showNotification("Save state added to your library");
+        },
     });
+  };
 
-    newPeer.on('error', (err) => {
-      console.error("Peer Error:", err);
-      if (err.type === 'peer-unavailable') {
-         showNotification('Peer unavailable - check ID');
-      } else if (err.type === 'unavailable-id') {
-         showNotification('ID unavailable - try again');
-      } else if (err.type === 'network' || err.type === 'server-error' || err.type === 'socket-error' || err.type === 'socket-closed') {
-         console.warn("Network/Server error, waiting for recovery...");
-      } else {
-         showNotification('Connection Error: ' + err.type);
-         setIsConnecting(false);
-      }
+  // Guest: offer a state to the host, who decides whether to load it
+  const sendStateToHost = (payload: SaveRestorePayload) => {
+    if (!connRef.current) return;
+    requestConfirm({
+        title: 'Send Save State',
+        message: `Send this save state for ${payload.romName} to the host? They will be asked to load it.`,
+        confirmLabel: 'Send',
+        onConfirm: () => {
+            if (!connRef.current) return;
+            sendMessage(connRef.current, { type: 'SAVE_RESTORE', payload });
+            showNotification("Save state sent to host");
+        },
     });
+  };
 
-    // setPeer(newPeer); // Removed setPeer state to avoid unnecessary re-renders if not needed for UI
-    return newPeer;
-  }, []);
+  const sendSharedState = (id: number) => {
+    const entry = sharedStates.find(s => s.id === id);
+    if (entry) sendStateToHost({ romName: entry.romName, romCrc32: entry.romCrc32, state: entry.state });
+  };
 
-  const handleConnection = (connection: DataConnection) => {
-    connRef.current = connection;
-    // Force update to show connected status in UI if needed (using notification or separate state)
-    // For now we rely on the ref for logic, but we might want a 'isConnected' state for UI
-    
-    connection.on('open', () => {
-      showNotification('Peer Connected!');
-      if (consoleRef.current && roleRef.current === ConnectionRole.HOST) {
-            connection.send({ type: 'PLATFORM_CHANGE', payload: platformRef.current } as PeerMessage);
-            if (romNameRef.current) {
-                connection.send({ type: 'ROM_LOAD', payload: { name: romNameRef.current } } as PeerMessage);
-                startStreaming(connection.peer);
-            }
-      }
-    });
+  const downloadSharedState = (id: number) => {
+    const entry = sharedStates.find(s => s.id === id);
+    if (entry) downloadBlob(new Blob([entry.state]), stateFilename(entry.romName));
+  };
+
+  // Guest: a state file from disk is assumed to belong to the game the host is running
+  const sendStateFile = () => {
+    const romName = romNameRef.current;
+    if (!romName) {
+        showNotification("Host has no game running");
+        return;
+    }
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.sav,.state,.blob';
+    input.onchange = async (e: Event) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (file) sendStateToHost({ romName, romCrc32: currentRomCrc32(), state: await file.arrayBuffer() });
+    };
+    input.click();
+  };
+
+  // --- Voice ---
+
+  const ensureVoice = (): VoiceService | null => {
+    if (!voiceRef.current) {
+        const output = audioService.current?.getVoiceOutput();
+        if (!output) return null;
+        voiceRef.current = new VoiceService(output);
+    }
+    return voiceRef.current;
+  };
+
+  // Host: a guest's voice call; we answer with everyone else's voices mixed together
+  const handleVoiceCall = (call: MediaConnection) => {
+    const voice = roleRef.current === ConnectionRole.HOST && guestsRef.current.has(call.peer) ? ensureVoice() : null;
+    if (!voice) {
+        call.close();
+        return;
+    }
 
-    connection.on('data', (data: any) => {
-        const msg = data as PeerMessage;
-        handlePeerMessage(msg);
+    voiceCallsRef.current.get(call.peer)?.close();
+    voiceCallsRef.current.set(call.peer, call);
+    call.answer(voice.createMix(call.peer));
+    call.on('stream', (remoteStream) => voice.addRemote(call.peer, remoteStream));
+    call.on('close', () => {
+        if (voiceCallsRef.current.get(call.peer) !== call) return;
+        voiceCallsRef.current.delete(call.peer);
+        voice.removeRemote(call.peer);
     });
+  };
 
-    connection.on('close', () => {
-      showNotification('Peer Disconnected');
-      connRef.current = null;
-      if (consoleRef.current) {
-        consoleRef.current.setPlayerConnected('p2', false);
-      }
+  // Guest: one voice call to the host, which hears us and sends back everyone else
+  const callHostVoice = () => {
+    const voice = voiceRef.current;
+    const hostId = connRef.current?.peer;
+    if (!voice || !hostId || !peerRef.current) return;
+
+    voiceCallsRef.current.get(hostId)?.close();
+    const call = peerRef.current.call(hostId, voice.outgoingStream, { metadata: { kind: 'voice' } });
+    voiceCallsRef.current.set(hostId, call);
+    call.on('stream', (remoteStream) => voice.addRemote(hostId, remoteStream));
+    call.on('close', () => {
+        if (voiceCallsRef.current.get(hostId) !== call) return;
+        voiceCallsRef.current.delete(hostId);
+        voice.removeRemote(hostId);
     });
   };
 
-  const startStreaming = (destId: string) => {
-      if (!peerRef.current || !consoleRef.current) return;
-      try {
-          // 30 FPS for reliable, smooth streaming without jitter (Best setting for P2P)
-          const stream = consoleRef.current.captureStream(30);
-          currentStream.current = stream;
-          peerRef.current.call(destId, stream);
-          console.log("Started streaming to", destId);
-      } catch (e) {
-          console.error("Failed to capture stream", e);
-      }
+  const joinVoice = async () => {
+    const voice = ensureVoice();
+    if (!voice) {
+        showNotification("Voice chat is not supported in this browser");
+        return;
+    }
+    await resumeAudio();
+    if (!await voice.enableMic()) {
+        showNotification("No microphone - joined voice as listener");
+    }
+    voice.setListening(true);
+    setVoiceActive(true);
+    if (roleRef.current === ConnectionRole.GUEST) callHostVoice();
   };
 
-  const handlePeerMessage = (msg: PeerMessage) => {
-    if (!consoleRef.current) return;
+  const leaveVoice = () => {
+    setVoiceActive(false);
+    setLocalSpeaking(false);
+    const voice = voiceRef.current;
+    if (!voice) return;
+    voice.setListening(false);
+    voice.disableMic();
+    // The host keeps mixing for its guests; a guest hangs up entirely
+    if (roleRef.current !== ConnectionRole.HOST) {
+        voiceCallsRef.current.forEach(call => call.close());
+    }
+  };
 
-    switch (msg.type) {
-        case 'INPUT':
-            if (roleRef.current === ConnectionRole.HOST) {
-               consoleRef.current.updateGuestInput(msg.payload);
-            }
-            break;
-        case 'STATE_UPDATE':
-            if (roleRef.current === ConnectionRole.GUEST) {
-                consoleRef.current.setState(msg.payload);
-            }
-            break;
-        case 'PLATFORM_CHANGE':
-            setPlatform(msg.payload);
-            setRomName(null); 
-            consoleRef.current.setPlatform(msg.payload);
-            showNotification(`Host switched core to ${msg.payload}`);
-            break;
-        case 'ROM_LOAD':
-            setRomName(msg.payload.name);
-            // Sync the name to the Guest's VirtualConsole so the "Remote Play" text can be hidden
-            consoleRef.current.romName = msg.payload.name;
-            showNotification(`Loaded Game: ${msg.payload.name}`);
-            break;
+  const handleVoiceVolumeChange = (v: number) => {
+    setVoiceVolume(v);
+    audioService.current?.setVoiceVolume(v);
+  };
+
+  // --- Chat ---
+
+  // How the host labels a peer's chat lines
+  const chatLabelFor = (peerId: string) => {
+    const slot = guestsRef.current.get(peerId);
+    return slot ? `P${slot.port}` : 'Viewer';
+  };
+
+  const addChatMessage = (sender: string, text: string, sentAt: number, isLocal: boolean) => {
+    const message: ChatMessage = { id: ++chatIdRef.current, sender, text, sentAt, isLocal };
+    setChatMessages(prev => [...prev.slice(-(CHAT_HISTORY_LIMIT - 1)), message]);
+    if (isLocal) return;
+
+    if (!isChatOpenRef.current) setUnreadChat(count => count + 1);
+    if (chatSoundRef.current) audioService.current?.playTone(880, 'sine', 0.08);
+  };
+
+  const sendChat = (text: string) => {
+    const sentAt = Date.now();
+    if (roleRef.current === ConnectionRole.HOST) {
+        broadcast({ type: 'CHAT', payload: { text, sentAt, sender: 'P1' } });
+        addChatMessage('P1', text, sentAt, true);
+        return;
     }
+    if (!connRef.current) return;
+    sendMessage(connRef.current, { type: 'CHAT', payload: { text, sentAt } });
+    const label = roleRef.current === ConnectionRole.SPECTATOR ? 'Viewer' : myPortRef.current ? `P${myPortRef.current}` : 'Guest';
+    addChatMessage(label, text, sentAt, true);
+  };
+
+  // Host: stamp the sender from our own bookkeeping and pass the line on to everyone else
+  const relayChat = (text: string, sentAt: number, from: DataConnection) => {
+    const sender = chatLabelFor(from.peer);
+    allConnections().forEach(conn => {
+        if (conn !== from) sendMessage(conn, { type: 'CHAT', payload: { text, sentAt, sender } });
+    });
+    addChatMessage(sender, text, sentAt, false);
+  };
+
+  // Host: frame rate and codec are fixed per call, so those changes restart the streams; the rest applies live
+  const handleStreamQualityChange = (config: StreamQualityConfig) => {
+    const previous = streamQualityRef.current;
+    streamQualityRef.current = config;
+    setStreamQuality(config);
+    saveStreamQuality(config);
+    if (config.preset !== previous.preset) autoQualityRef.current.clear();
+
+    const needsRestart = captureFps(config) !== captureFps(previous) || resolveQuality(config).codec !== resolveQuality(previous).codec;
+    Array.from(callsRef.current.entries()).forEach(([peerId, call]) => {
+        if (needsRestart) {
+            startStreaming(peerId);
+        } else if (call.peerConnection) {
+            applySenderQuality(call.peerConnection, streamSettingsFor(peerId));
+        }
+    });
+  };
+
+  const handleNetworkSettingsChange = (settings: NetworkSettings) => {
+    setNetworkSettings(settings);
+    saveNetworkSettings(settings);
   };
 
-  const createSession = () => {
+  const handleNetworkSettingsReset = () => {
+    clearNetworkSettings();
+    setNetworkSettings(loadNetworkSettings());
+  };
+
+  const createSession = (password: string) => {
     resumeAudio(); 
+    sessionPasswordRef.current = password;
+    setHasPassword(!!password);
     setIsConnecting(true);
     setRole(ConnectionRole.HOST);
     setIsSettingsOpen(true);
     initPeer();
   };
 
-  const joinSession = (hostId: string) => {
+  const joinSession = (hostId: string, identity: JoinIdentity, joinRole: ConnectionRole = ConnectionRole.GUEST) => {
     if (!hostId) return;
     resumeAudio(); 
+    saveDisplayName(identity.name);
+    joinIdentityRef.current = { ...identity, name: cleanDisplayName(identity.name) };
     setIsConnecting(true);
-    setRole(ConnectionRole.GUEST);
+    setRole(joinRole);
+    hostIdRef.current = hostId;
+    wasRejectedRef.current = false;
+    setRejection(null);
     const p = initPeer();
     
     p.on('open', () => {
-        const connection = p.connect(hostId);
-        handleConnection(connection);
+        // The host reads the role from metadata to decide whether to hand out a controller port
+        const connection = p.connect(hostId, { metadata: { role: joinRole } });
+        handleHostConnection(connection);
     });
   };
 
+  const watchSession = (hostId: string, identity: JoinIdentity) => joinSession(hostId, identity, ConnectionRole.SPECTATOR);
+
   // --- Engine Loop ---
 
   // Stable Game Loop - No dependencies to prevent recreation
@@ -249,23 +2003,36 @@ const App: React.FC = () => {
     const currentRole = roleRef.current;
     const currentConn = connRef.current;
 
-    if (currentRole === ConnectionRole.HOST) {
+    if (lockstepRef.current) {
+        // Every player runs the core locally; frames only advance in step with the other peers,
+        // so the host holding back while paused holds everyone
+        if (currentRole !== ConnectionRole.HOST || pauseReasonsRef.current.size === 0) {
+            tickLockstep(lockstepRef.current, portLockedRef.current ? NO_INPUT : myInput);
+        }
+    } else if (currentRole === ConnectionRole.HOST) {
         // Host rendering handles by Nostalgist or static fallback
         consoleRef.current.render();
 
+        // Our own controller goes through the same port routing as the guests'
+        hostInputRef.current = myInput;
+        applyPort(hostPortRef.current);
+
         // Optional handshake state sync
-        if (currentConn && currentConn.open && !consoleRef.current.isRomLoaded) {
+        if (guestsRef.current.size > 0 && !consoleRef.current.isRomLoaded) {
             const state = consoleRef.current.getState();
-            currentConn.send({ type: 'STATE_UPDATE', payload: state } as PeerMessage);
+            broadcast({ type: 'STATE_UPDATE', payload: state });
         }
-    } else if (currentRole === ConnectionRole.GUEST) {
-        // Send Input
-        if (currentConn && currentConn.open) {
-            currentConn.send({ type: 'INPUT', payload: myInput } as PeerMessage);
+    } else if (currentRole === ConnectionRole.GUEST || currentRole === ConnectionRole.SPECTATOR) {
+        // Send Input (spectators only watch, lockstep players wait for LOCKSTEP_START)
+        const isStreamPlayer = currentRole === ConnectionRole.GUEST && netplayModeRef.current === NetplayMode.STREAM;
+        if (isStreamPlayer && currentConn) {
+            sendInput(currentConn, myInput);
         }
 
         // Render Guest View
-        if (consoleRef.current.isRomLoaded || romNameRef.current) {
+        if (consoleRef.current.isLockstep) {
+            // Local core draws itself
+        } else if (consoleRef.current.isRomLoaded || romNameRef.current) {
              if (guestVideoRef.current.readyState >= 2) {
                  consoleRef.current.renderVideo(guestVideoRef.current);
              }
@@ -303,6 +2070,9 @@ const App: React.FC = () => {
   useEffect(() => {
     return () => {
         if (loopRef.current) cancelAnimationFrame(loopRef.current);
+        reconnectRef.current.stop();
+        reservationsRef.current.forEach(r => clearTimeout(r.timer));
+        voiceRef.current?.destroy();
         if (peerRef.current) {
             peerRef.current.destroy();
             peerRef.current = null;
@@ -323,102 +2093,378 @@ const App: React.FC = () => {
     if (consoleRef.current) {
         consoleRef.current.setPlatform(p);
     }
-    if (connRef.current && connRef.current.open) {
-        connRef.current.send({ type: 'PLATFORM_CHANGE', payload: p } as PeerMessage);
-    }
+    broadcast({ type: 'PLATFORM_CHANGE', payload: p });
+  };
+
+  const handleNetplayModeChange = (mode: NetplayMode) => {
+    setNetplayMode(mode);
+    lockstepRef.current = null;
+    lockstepReadyRef.current.clear();
+    broadcast({ type: 'NETPLAY_MODE', payload: { mode } });
   };
 
-  const handleRomSelect = async (file: File) => {
+  // Guest (lockstep): run our own copy of the host's ROM; `verified` skips the hash check for downloads
+  const handleLocalRomSelect = async (rom: RomSet, verified: boolean = false) => {
       resumeAudio();
-      const detectedPlatform = detectPlatform(file.name);
-      
+      if (!consoleRef.current) return;
+      const file = rom.files[0];
+      const hostInfo = romInfoRef.current;
+      if (!verified && hostInfo) {
+          // Lockstep desyncs on the first differing byte, so a mismatched copy is refused outright
+          const hash = await hashRom(await file.arrayBuffer());
+          if (!hashesMatch(hash, hostInfo)) {
+              showNotification(`${rom.name} doesn't match the host's ROM (CRC32 ${hash.crc32}, expected ${hostInfo.crc32})`);
+              return;
+          }
+      } else if (!verified && romNameRef.current && rom.name !== romNameRef.current) {
+          showNotification(`Host is playing ${romNameRef.current} - make sure this is the same game`);
+      }
+
+      try {
+          await consoleRef.current.loadRom(rom, { lockstep: true });
+          consoleRef.current.pause();
+          if (connRef.current) sendMessage(connRef.current, { type: 'LOCKSTEP_READY', payload: { name: rom.name } });
+          showNotification("Waiting for host to sync...");
+      } catch (e) {
+          showNotification(`Failed to load ${rom.name}`);
+      }
+  };
+
+  // Picked or dropped files: unpack archives, then sort out which files make up which game
+  const handleRomSelect = async (selected: File[]) => {
+      const sourceName = selected.length === 1 ? selected[0].name : `${selected.length} files`;
+      const files: File[] = [];
+      for (const file of selected) {
+          if (!isArchive(file.name)) {
+              files.push(file);
+              continue;
+          }
+          showNotification(`Opening ${file.name}...`);
+          try {
+              files.push(...await extractRoms(file));
+          } catch (e) {
+              console.error(e);
+              showNotification(`Could not open ${file.name}`);
+              return;
+          }
+      }
+
+      let sets: RomSet[];
+      try {
+          sets = await groupRomSets(files);
+      } catch (e) {
+          showNotification((e as Error).message);
+          return;
+      }
+      if (sets.length === 0) {
+          showNotification(`No ROMs found in ${sourceName}`);
+      } else if (sets.length === 1) {
+          openRom(sets[0]);
+      } else {
+          setGameChoice({ sourceName, sets });
+      }
+  };
+
+  // A game ready to run, already out of any archive
+  const openRom = async (rom: RomSet) => {
+      if (roleRef.current !== ConnectionRole.HOST) {
+          return handleLocalRomSelect(rom);
+      }
+      resumeAudio();
+
+      let detection: PlatformDetection;
+      try {
+          detection = await detectPlatform(rom.files[0]);
+      } catch (e) {
+          console.error(e);
+          showNotification(`Could not read ${rom.name}`);
+          return;
+      }
+
+      // Several plausible systems: let the user settle it rather than boot the wrong core
+      if (detection.candidates.length > 1) {
+          setPlatformChoice({ rom, detection });
+          return;
+      }
+      loadHostRom(rom, detection.platform);
+  };
+
+  const loadHostRom = (rom: RomSet, detectedPlatform: Platform) => {
+      endSaveRamSession();
+      endPlaySession();
+
       // Update platform state if needed
-      if (detectedPlatform !== platform) {
+      if (detectedPlatform !== platformRef.current) {
         setPlatform(detectedPlatform); // triggers render
-        if (connRef.current?.open) {
-            connRef.current.send({ type: 'PLATFORM_CHANGE', payload: detectedPlatform } as PeerMessage);
-        }
+        broadcast({ type: 'PLATFORM_CHANGE', payload: detectedPlatform });
       }
 
-      setRomName(file.name); // triggers render
+      setRomName(rom.name); // triggers render
+      setDiscCount(0);
+      setSaveSlots([]);
+      romSetRef.current = rom;
+      romInfoRef.current = null;
+      cancelAllUploads('Host changed the game');
       
       // Use a timeout to allow React state updates to flush before loading ROM
       // This is a safety measure, though refs should handle stability now.
       setTimeout(async () => {
-        if (consoleRef.current) {
+        if (!consoleRef.current) return;
+        // The ROM stays selected only if it actually started
+        const abandon = () => {
+            if (romSetRef.current !== rom) return;
+            setRomName(null);
+            setDiscCount(0);
+            setSaveSlots([]);
+            romSetRef.current = null;
+            romInfoRef.current = null;
+        };
+        try {
+            const isLockstep = netplayModeRef.current === NetplayMode.LOCKSTEP;
+            lockstepRef.current = null;
+            lockstepReadyRef.current.clear();
+
+            // Hashed first, as the battery save to restore is stored under the hash
+            const hash = await hashRom(await rom.files[0].arrayBuffer());
+            if (romSetRef.current !== rom) return; // Superseded by another ROM meanwhile
+            const romId = libraryId(hash);
+            const saveRam = await getSaveRam(romId).catch(e => {
+                console.warn('Failed to read battery save', e);
+                return undefined;
+            });
+
             // Fix race condition: Ensure platform is switched before loading ROM
             await consoleRef.current.setPlatform(detectedPlatform);
-            await consoleRef.current.loadRom(file);
+            await consoleRef.current.loadRom(rom, { lockstep: isLockstep, saveRam: saveRam?.data, fastForwardRatio: fastForwardRatioRef.current });
+            // Nothing is announced or remembered for a game the core couldn't start
+            if (!consoleRef.current.isRomLoaded) {
+                abandon();
+                showNotification(`Failed to load ${rom.name}`);
+                return;
+            }
+            setDiscCount(consoleRef.current.discCount);
+            setCurrentDisc(0);
+            if (!isLockstep) consoleRef.current.setRewind(rewindSettingsFor(rewindOverridesRef.current, detectedPlatform));
+            // A new game starts running, unless a player is still missing
+            pauseReasonsRef.current.delete('host');
+            applyPause();
+            publishPlayback();
+            saveRamSessionRef.current = {
+                romId,
+                romName: rom.name,
+                stored: saveRam ? new Uint8Array(await saveRam.data.arrayBuffer()) : null,
+            };
             
-            showNotification(`Loaded ${file.name}`);
+            showNotification(`Loaded ${rom.name}` + (rom.discs > 1 ? ` (${rom.discs} discs)` : '') + (saveRam ? ' with its battery save' : ''));
             
-            if (connRef.current && connRef.current.open) {
-                startStreaming(connRef.current.peer);
-                connRef.current.send({ type: 'ROM_LOAD', payload: { name: file.name } } as PeerMessage);
-            }
+            allConnections().forEach((conn) => {
+                if (!conn.open) return;
+                if (!isLockstep || spectatorsRef.current.has(conn.peer)) {
+                    startStreaming(conn.peer);
+                }
+                sendMessage(conn, { type: 'ROM_LOAD', payload: { name: rom.name } });
+            });
+
+            rememberLaunch(rom, detectedPlatform, announceRomInfo(rom, hash));
+            refreshSaveSlots();
+
+            // Runs solo until the guests have loaded their copies
+            if (isLockstep) startLockstep();
+        } catch (e) {
+            console.error('Failed to load ROM', e);
+            abandon();
+            showNotification(`Failed to load ${rom.name}`);
         }
       }, 50);
   };
 
-  const handleSaveState = async () => {
-    if (!consoleRef.current || !consoleRef.current.isRomLoaded) {
-      showNotification("No game running to save");
-      return;
+  const updateRewindSettings = (settings: RewindSettings) => {
+    const next = { ...rewindOverrides, [platform]: settings };
+    setRewindOverrides(next);
+    saveRewindOverrides(next);
+  };
+
+  const handleSwapDisc = async () => {
+      if (!consoleRef.current) return;
+      const disc = await consoleRef.current.swapDisc();
+      setCurrentDisc(disc);
+      showNotification(`Inserted disc ${disc + 1} of ${consoleRef.current.discCount}`);
+  };
+
+  // --- Save slots (host) ---
+
+  // The running game's library id; null until its hash has been announced
+  const currentRomId = () => {
+    const info = romInfoRef.current;
+    return info && info.name === romNameRef.current ? libraryId(info) : null;
+  };
+
+  const refreshSaveSlots = async () => {
+    const romId = currentRomId();
+    if (!romId) {
+        setSaveSlots([]);
+        return;
     }
+    try {
+        const slots = await listSlots(romId);
+        if (currentRomId() === romId) setSaveSlots(slots);
+    } catch (e) {
+        console.warn('Failed to read save slots', e);
+    }
+  };
 
-    const blob = await consoleRef.current.saveState();
-    if (blob) {
-      // Create a distinct filename: GameName_YYYY-MM-DDTHH-mm.sav
-      const cleanName = (romNameRef.current || 'game').replace(/\.[^/.]+$/, "");
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-      const filename = `${cleanName}_${timestamp}.sav`;
-
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
-      showNotification("State Saved & Downloaded");
-    } else {
-      showNotification("Failed to save state");
+  const saveToSlot = async (slot: number) => {
+    const romId = currentRomId();
+    if (!consoleRef.current?.isRomLoaded || !romId || !romNameRef.current) {
+        showNotification("No game running to save");
+        return;
+    }
+    const snapshot = await consoleRef.current.saveSnapshot();
+    if (!snapshot) {
+        showNotification("Failed to save state");
+        return;
+    }
+    try {
+        await writeSlot({
+            romId,
+            romName: romNameRef.current,
+            slot,
+            core: getPlatformInfo(platformRef.current).core,
+            savedAt: Date.now(),
+            thumbnail: snapshot.thumbnail,
+            state: snapshot.state,
+        });
+        showNotification(`Saved to slot ${slot}`);
+    } catch (e) {
+        console.error(e);
+        showNotification("Failed to store save state");
     }
+    refreshSaveSlots();
   };
 
-  const handleLoadState = () => {
-    if (!consoleRef.current || !consoleRef.current.isRomLoaded) {
-      showNotification("Load a game first");
-      return;
+  const loadFromSlot = async (slot: number) => {
+    const romId = currentRomId();
+    if (!consoleRef.current?.isRomLoaded || !romId) {
+        showNotification("Load a game first");
+        return;
+    }
+    const entry = await getSlot(romId, slot).catch(() => undefined);
+    if (!entry) {
+        showNotification(`Slot ${slot} is empty`);
+        return;
+    }
+    try {
+        await consoleRef.current.loadState(entry.state);
+        // Lockstep guests must continue from the restored state too
+        if (lockstepRef.current) startLockstep();
+        showNotification(`Loaded slot ${slot}`);
+    } catch (e) {
+        showNotification(`Failed to load slot ${slot}`);
     }
+  };
+
+  const deleteSaveSlot = (slot: number) => {
+    const romId = currentRomId();
+    if (!romId) return;
+    requestConfirm({
+        title: `Delete Slot ${slot}`,
+        message: `Delete the save state in slot ${slot} of ${romNameRef.current}? This can't be undone.`,
+        confirmLabel: 'Delete',
+        onConfirm: async () => {
+            await deleteSlot(romId, slot).catch(e => console.warn('Failed to delete save slot', e));
+            refreshSaveSlots();
+        },
+    });
+  };
 
-    // Create a temporary file input
+  const exportSaveSlot = (slot: number) => {
+    const entry = saveSlots.find(s => s.slot === slot);
+    if (entry) downloadBlob(entry.state, `${entry.romName.replace(/\.[^/.]+$/, '')}_slot${slot}.state`);
+  };
+
+  const exportAllSaveSlots = async () => {
+    if (saveSlots.length === 0) return;
+    downloadBlob(await exportSlots(saveSlots), `${saveSlots[0].romName.replace(/\.[^/.]+$/, '')}.slots.json`);
+  };
+
+  // A slot export goes back into its slots; a bare state file into the selected slot
+  const importSaveSlots = () => {
+    const romId = currentRomId();
+    const romName = romNameRef.current;
+    if (!romId || !romName) {
+        showNotification("Load a game first");
+        return;
+    }
+    const core = getPlatformInfo(platformRef.current).core;
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.sav,.state,.blob';
-    
+    input.accept = '.json,.state,.sav,.blob';
     input.onchange = async (e: Event) => {
-      const target = e.target as HTMLInputElement;
-      if (target.files && target.files[0]) {
-        try {
-          await consoleRef.current!.loadState(target.files[0]);
-          showNotification("State Loaded");
-        } catch (err) {
-          console.error(err);
-          showNotification("Failed to load state file");
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+
+        let imported: ImportedSlot[];
+        let fromOtherRom = false;
+        if (file.name.toLowerCase().endsWith('.json')) {
+            try {
+                const bundle = await readSlotBundle(file);
+                imported = bundle.slots;
+                fromOtherRom = bundle.romId !== romId;
+            } catch (err) {
+                showNotification((err as Error).message);
+                return;
+            }
+        } else {
+            imported = [{ slot: selectedSlot, core, savedAt: Date.now(), state: file, thumbnail: null }];
         }
-      }
+        if (imported.length === 0) {
+            showNotification(`No save slots in ${file.name}`);
+            return;
+        }
+
+        const store = async () => {
+            try {
+                await Promise.all(imported.map(s => writeSlot({ ...s, romId, romName })));
+                showNotification(`Imported ${imported.length} save slot${imported.length === 1 ? '' : 's'}`);
+            } catch (err) {
+                console.error(err);
+                showNotification("Failed to store save states");
+            }
+            refreshSaveSlots();
+        };
+
+        const overwritten = imported.filter(s => saveSlots.some(existing => existing.slot === s.slot)).map(s => s.slot);
+        if (!fromOtherRom && overwritten.length === 0) {
+            store();
+            return;
+        }
+        requestConfirm({
+            title: 'Import Save States',
+            message: [
+                fromOtherRom && `${file.name} was made with a different ROM than ${romName}; its states may not load.`,
+                overwritten.length > 0 && `This replaces slot${overwritten.length === 1 ? '' : 's'} ${overwritten.join(', ')}.`,
+            ].filter(Boolean).join(' '),
+            confirmLabel: 'Import',
+            onConfirm: store,
+        });
     };
-    
     input.click();
   };
-  
+
   const handlePowerOff = async () => {
     if (consoleRef.current) {
+        lockstepRef.current = null;
+        endSaveRamSession();
         await consoleRef.current.stop();
+        pauseReasonsRef.current.delete('host');
+        publishPlayback();
         setRomName(null);
+        setDiscCount(0);
+        setSaveSlots([]);
+        endPlaySession();
+        romSetRef.current = null;
+        romInfoRef.current = null;
+        cancelAllUploads('Host powered off');
         showNotification("Console Powered Off");
     }
   };
@@ -427,6 +2473,8 @@ const App: React.FC = () => {
       setVolume(v);
       if (audioService.current) audioService.current.setVolume(v);
       if (consoleRef.current) consoleRef.current.setVolume(v);
+      // Game audio streamed from the host
+      guestVideoRef.current.volume = v;
   };
 
   const toggleFullscreen = () => {
@@ -450,23 +2498,72 @@ const App: React.FC = () => {
       showNotification("Session ID Copied!");
   };
 
+  // Session links carry our signaling/ICE settings so guests end up on the same broker
+  const buildSessionLink = (param: 'join' | 'watch') => {
+      const params = toUrlParams(networkSettings);
+      params.set(param, myId);
+      return `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+  };
+
   const copyLink = () => {
-      const url = `${window.location.origin}${window.location.pathname}?join=${myId}`;
+      const url = buildSessionLink('join');
       navigator.clipboard.writeText(url);
       showNotification("Join Link Copied!");
   };
 
+  const copyWatchLink = () => {
+      const url = buildSessionLink('watch');
+      navigator.clipboard.writeText(url);
+      showNotification("Spectator Link Copied!");
+  };
+
   // --- Render ---
 
   if (role === ConnectionRole.NONE) {
-    return <Lobby onCreate={createSession} onJoin={joinSession} isConnecting={isConnecting} />;
+    return (
+      <Lobby
+        onCreate={createSession}
+        onJoin={(id, identity) => joinSession(id, identity)}
+        onWatch={watchSession}
+        isConnecting={isConnecting}
+        networkSettings={networkSettings}
+        onNetworkSettingsChange={handleNetworkSettingsChange}
+        onNetworkSettingsReset={handleNetworkSettingsReset}
+      />
+    );
   }
 
-  // Helper to determine player indicator status
-  // P1 active if Host + Gamepad, or if Guest + Connected to Host (Host is P1)
-  const p1Connected = role === ConnectionRole.HOST ? isGamepadConnected : !!connRef.current;
-  // P2 active if Host + Connected to Guest, or if Guest + Gamepad (Guest is P2)
-  const p2Connected = role === ConnectionRole.HOST ? !!connRef.current : isGamepadConnected;
+  // Helpers to determine player indicator status
+  // A port is active while the host or an unlocked guest drives it; the host only counts once someone joined
+  const localPort = role === ConnectionRole.HOST ? hostPort : myPort;
+  const hostPlays = role === ConnectionRole.HOST || !!connRef.current;
+  const isPortLocked = (port: number) => lockedPorts.includes(port) && !(hostPlays && port === hostPort);
+  const isPortConnected = (port: number) => !isPortLocked(port) && ((hostPlays && port === hostPort) || guestPorts.includes(port));
+  const portTags = (port: number) => {
+    const tags: string[] = [];
+    if (port === localPort) tags.push('YOU');
+    if (port === hostPort && role !== ConnectionRole.HOST) tags.push('HOST');
+    if (guestPorts.includes(port) && port !== myPort) tags.push('GUEST');
+    if (isPortLocked(port) || (port === myPort && portLocked)) tags.push('LOCKED');
+    return tags;
+  };
+  // Host header pills: every port a guest could hold, i.e. all but ours unless a guest shares it
+  const pillPorts = CONTROLLER_PORTS.filter(port => port !== hostPort || guestPorts.includes(port));
+
+  const isRomDownloading = Object.values(romTransfers).some(t => t.direction === 'download');
+  const isSpeaking = (port: number) => speakingPorts.includes(port) || (localSpeaking && port === myPort);
+  const isTransmitting = voiceActive && !voiceMuted && (voiceMode === VoiceMode.OPEN_MIC || isTalking);
+
+  const statsLinks: StatsLink[] = Object.entries(statsHistory).map(([peerId, history]) => {
+    const slot = guestsRef.current.get(peerId);
+    const label = role !== ConnectionRole.HOST ? 'Host' : slot ? `P${slot.port}` : 'Viewer';
+    // Host: the encoder limits currently in effect for this peer's stream
+    const quality = role !== ConnectionRole.HOST || !callsRef.current.has(peerId) ? null
+        : streamQuality.preset === StreamQualityPreset.AUTO ? autoQualityRef.current.get(peerId)?.settings ?? null
+        : resolveQuality(streamQuality);
+    const detail = quality ? `${quality.maxBitrateKbps}kbps · ${quality.fps}fps${quality.scaleDown > 1 ? ` · 1/${quality.scaleDown}` : ''}` : undefined;
+    return { id: peerId, label, detail, history };
+  });
 
   return (
     <div className="flex flex-col h-screen bg-zinc-950 text-white overflow-hidden">
@@ -485,6 +2582,7 @@ const App: React.FC = () => {
             <div className="flex items-center gap-3 lg:gap-4">
                 {role === ConnectionRole.HOST && (
                     <div className="flex items-center gap-2 bg-zinc-900 border border-zinc-700 rounded-full pl-3 pr-1 py-1 max-w-[150px] sm:max-w-none">
+                        {hasPassword && <i className="ph ph-lock-simple text-zinc-400 text-xs flex-shrink-0" title="Password protected"></i>}
                         <span className="text-xs text-zinc-400 font-mono truncate">{myId || 'Generating...'}</span>
                         <button onClick={copyId} className="p-1.5 hover:bg-zinc-700 rounded-full text-zinc-300 transition-colors flex-shrink-0" title="Copy ID">
                             <i className="ph ph-copy"></i>
@@ -493,14 +2591,91 @@ const App: React.FC = () => {
                         <button onClick={copyLink} className="p-1.5 hover:bg-zinc-700 rounded-full text-zinc-300 transition-colors flex-shrink-0" title="Copy Join Link">
                             <i className="ph ph-link"></i>
                         </button>
+                        <button onClick={copyWatchLink} className="p-1.5 hover:bg-zinc-700 rounded-full text-zinc-300 transition-colors flex-shrink-0" title="Copy Spectator Link">
+                            <i className="ph ph-eye"></i>
+                        </button>
                     </div>
                 )}
                 
-                <div className={`hidden sm:flex px-3 py-1 rounded-full text-xs font-medium items-center gap-1.5 ${connRef.current ? 'bg-emerald-900/30 text-emerald-400 border border-emerald-900/50' : 'bg-yellow-900/30 text-yellow-400 border border-yellow-900/50'}`}>
-                    <div className={`w-1.5 h-1.5 rounded-full ${connRef.current ? 'bg-emerald-400 animate-pulse' : 'bg-yellow-400'}`}></div>
-                    {connRef.current ? 'P2 CONNECTED' : 'WAITING FOR P2'}
+                {role === ConnectionRole.HOST ? (
+                    <div className="hidden sm:flex items-center gap-1.5">
+                        {pillPorts.map(port => {
+                            const isConnected = guestPorts.includes(port);
+                            const isAwaiting = awaitingPorts.includes(port);
+                            return (
+                                <div key={port} className={`px-2.5 py-1 rounded-full text-xs font-medium flex items-center gap-1.5 ${isConnected ? 'bg-emerald-900/30 text-emerald-400 border border-emerald-900/50' : isAwaiting ? 'bg-orange-900/30 text-orange-400 border border-orange-900/50' : 'bg-yellow-900/30 text-yellow-400 border border-yellow-900/50'}`} title={isConnected ? `P${port} connected` : isAwaiting ? `P${port} reconnecting` : `Waiting for P${port}`}>
+                                    {isAwaiting ? (
+                                        <i className="ph ph-spinner animate-spin"></i>
+                                    ) : (
+                                        <div className={`w-1.5 h-1.5 rounded-full ${isConnected ? 'bg-emerald-400 animate-pulse' : 'bg-yellow-400'}`}></div>
+                                    )}
+                                    P{port}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ) : role === ConnectionRole.SPECTATOR ? (
+                    <div className={`hidden sm:flex px-3 py-1 rounded-full text-xs font-medium items-center gap-1.5 ${connRef.current ? 'bg-sky-900/30 text-sky-400 border border-sky-900/50' : 'bg-yellow-900/30 text-yellow-400 border border-yellow-900/50'}`}>
+                        <div className={`w-1.5 h-1.5 rounded-full ${connRef.current ? 'bg-sky-400 animate-pulse' : 'bg-yellow-400'}`}></div>
+                        {connRef.current ? 'WATCHING' : 'WAITING FOR HOST'}
+                    </div>
+                ) : (
+                    <div className={`hidden sm:flex px-3 py-1 rounded-full text-xs font-medium items-center gap-1.5 ${myPort ? 'bg-emerald-900/30 text-emerald-400 border border-emerald-900/50' : reconnectState ? 'bg-orange-900/30 text-orange-400 border border-orange-900/50' : 'bg-yellow-900/30 text-yellow-400 border border-yellow-900/50'}`}>
+                        <div className={`w-1.5 h-1.5 rounded-full ${myPort ? 'bg-emerald-400 animate-pulse' : reconnectState ? 'bg-orange-400 animate-pulse' : 'bg-yellow-400'}`}></div>
+                        {myPort ? `P${myPort} CONNECTED` : reconnectState ? 'RECONNECTING' : 'WAITING FOR HOST'}
+                    </div>
+                )}
+
+                {/* Viewer Count */}
+                <div className="flex items-center gap-1 text-xs text-zinc-400 font-mono" title={`${viewerCount} spectator${viewerCount === 1 ? '' : 's'} watching`}>
+                    <i className="ph ph-eye"></i> {viewerCount}
                 </div>
 
+                {/* Voice Chat - players only */}
+                {role !== ConnectionRole.SPECTATOR && (
+                    <div className="flex items-center gap-2">
+                        <button 
+                            onClick={voiceActive ? () => setVoiceMuted(!voiceMuted) : joinVoice}
+                            className={`p-2 rounded-lg transition-colors hover:bg-zinc-800 ${!voiceActive ? 'text-zinc-400' : voiceMuted ? 'text-red-400' : isTransmitting ? 'text-emerald-400' : 'text-zinc-300'}`}
+                            title={!voiceActive ? 'Join Voice Chat' : voiceMuted ? 'Unmute Mic' : voiceMode === VoiceMode.PUSH_TO_TALK ? 'Mute Mic (hold V to talk)' : 'Mute Mic'}
+                        >
+                            <i className={`ph ${!voiceActive ? 'ph-headset' : voiceMuted ? 'ph-microphone-slash' : 'ph-microphone'} text-lg`}></i>
+                        </button>
+                        {voiceActive && (
+                            <div className="hidden md:flex items-center gap-1.5 text-[10px] font-mono">
+                                {CONTROLLER_PORTS.map(port => (
+                                    <span key={port} className={`flex items-center gap-0.5 transition-colors ${isSpeaking(port) ? 'text-emerald-400' : 'text-zinc-600'}`} title={`P${port}${isSpeaking(port) ? ' speaking' : ''}`}>
+                                        <i className={`ph${isSpeaking(port) ? '-fill' : ''} ph-speaker-high`}></i>P{port}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                 {/* Chat Toggle */}
+                 <button 
+                    onClick={() => setIsChatOpen(!isChatOpen)}
+                    className={`relative p-2 rounded-lg transition-colors ${isChatOpen ? 'bg-zinc-800 text-indigo-400' : 'hover:bg-zinc-800 text-zinc-400'}`}
+                    title="Chat (T)"
+                >
+                    <i className="ph ph-chat-circle text-lg"></i>
+                    {unreadChat > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+                            {unreadChat > 9 ? '9+' : unreadChat}
+                        </span>
+                    )}
+                </button>
+
+                 {/* Network Stats Toggle */}
+                 <button 
+                    onClick={() => setShowStats(!showStats)}
+                    className={`p-2 rounded-lg transition-colors ${showStats ? 'bg-zinc-800 text-indigo-400' : 'hover:bg-zinc-800 text-zinc-400'}`}
+                    title="Network Stats"
+                >
+                    <i className="ph ph-chart-line-up text-lg"></i>
+                </button>
+
                  {/* Fullscreen Toggle */}
                  <button 
                     onClick={toggleFullscreen}
@@ -541,27 +2716,133 @@ const App: React.FC = () => {
 
                 {/* Emulator Container with Dynamic Sizing */}
                 {/* max-w-2xl makes the default window smaller to hide artifacts */}
-                {/* aspect-[4/3] maintains retro ratio, m-auto centers it */}
+                {/* The system's native aspect ratio maintains the retro look, m-auto centers it */}
                 <div 
                     ref={emulatorWrapperRef} 
-                    className="w-full max-w-2xl aspect-[4/3] relative m-auto shadow-2xl bg-black"
+                    className="w-full max-w-2xl relative m-auto shadow-2xl bg-black"
+                    style={{ aspectRatio: getPlatformInfo(platform).aspectRatio }}
                 >
                    <EmulatorScreen onScreenReady={onScreenReady} enableCRT={enableCRT} />
+
+                   {playback.paused && playback.reason && (
+                       <PauseOverlay
+                           reason={playback.reason}
+                           isHost={role === ConnectionRole.HOST}
+                           onResume={role === ConnectionRole.HOST && playback.reason === 'host' ? togglePause : undefined}
+                       />
+                   )}
+
+                   {!playback.paused && playback.rate !== 1 && (
+                       <div className="absolute top-3 right-3 z-20 flex items-center gap-1 bg-black/70 text-zinc-200 px-2 py-1 rounded text-xs font-mono">
+                           <i className={`ph-fill ${playback.rate > 1 ? 'ph-fast-forward' : 'ph-hourglass'}`}></i>
+                           {playback.rate}x
+                       </div>
+                   )}
+
+                   {showStats && (
+                       <NetworkStatsOverlay links={statsLinks} onClose={() => setShowStats(false)} />
+                   )}
+
+                   {reconnectState && (
+                       <ReconnectOverlay
+                           state={reconnectState}
+                           onRetry={() => reconnectRef.current.retryNow()}
+                           onLeave={() => window.location.reload()}
+                       />
+                   )}
+
+                   {rejection && (
+                       <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/70 backdrop-blur-sm rounded-lg">
+                           <div className="flex flex-col items-center gap-3 text-center px-6">
+                               <i className="ph ph-prohibit text-4xl text-red-400"></i>
+                               <div>
+                                   <h3 className="text-sm font-bold text-white tracking-wide uppercase">Host Refused Connection</h3>
+                                   <p className="text-xs text-zinc-400 font-mono mt-1">{rejection}</p>
+                               </div>
+                               <button
+                                   onClick={() => window.location.reload()}
+                                   className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-medium transition-colors"
+                               >
+                                   Back to Lobby
+                               </button>
+                           </div>
+                       </div>
+                   )}
+
+                   {role === ConnectionRole.HOST && awaitingPorts.length > 0 && (
+                       <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 bg-orange-950/90 border border-orange-800/60 text-orange-300 px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap">
+                           <i className="ph ph-spinner animate-spin"></i>
+                           Waiting for {awaitingPorts.map(p => `P${p}`).join(', ')} to reconnect{pauseReasonsRef.current.has('disconnect') ? ' - game paused' : ''}
+                       </div>
+                   )}
                 </div>
 
                 <div className="w-full max-w-2xl mt-4 flex justify-between items-center text-zinc-500 text-xs font-mono">
-                    <span>CORE: {platform}</span>
+                    <span>CORE: {platform}{netplayMode === NetplayMode.LOCKSTEP ? ' · LOCKSTEP' : ''}</span>
                     <div className="flex gap-4">
-                        <span className={`flex items-center gap-1 ${p1Connected ? 'text-emerald-400' : 'text-zinc-600'}`}>
-                            <i className="ph ph-game-controller"></i> {role === ConnectionRole.HOST ? 'P1' : 'P1 (HOST)'}
-                        </span>
-                        <span className={`flex items-center gap-1 ${p2Connected ? 'text-emerald-400' : 'text-zinc-600'}`}>
-                            <i className="ph ph-game-controller"></i> {role === ConnectionRole.HOST ? 'P2 (GUEST)' : 'P2'}
-                        </span>
+                        {CONTROLLER_PORTS.map(port => {
+                            const tags = portTags(port);
+                            const isLocked = tags.includes('LOCKED');
+                            return (
+                                <span key={port} className={`flex items-center gap-1 ${isPortConnected(port) ? 'text-emerald-400' : isLocked ? 'text-amber-400' : 'text-zinc-600'}`}>
+                                    <i className={isLocked ? 'ph ph-lock-simple' : `ph${port === localPort && isGamepadConnected ? '-fill' : ''} ph-game-controller`}></i> P{port}{tags.length > 0 ? ` (${tags.join(' + ')})` : ''}
+                                </span>
+                            );
+                        })}
                     </div>
                 </div>
             </main>
 
+            {gameChoice && (
+                <GameChoiceDialog
+                    sourceName={gameChoice.sourceName}
+                    sets={gameChoice.sets}
+                    onChoose={(rom) => {
+                        setGameChoice(null);
+                        openRom(rom);
+                    }}
+                    onCancel={() => setGameChoice(null)}
+                />
+            )}
+
+            {isLibraryOpen && (
+                <RomLibrary onLaunch={launchFromLibrary} onClose={() => setIsLibraryOpen(false)} />
+            )}
+
+            {isBiosManagerOpen && (
+                <BiosManager onClose={() => setIsBiosManagerOpen(false)} />
+            )}
+
+            {platformChoice && (
+                <PlatformChoiceDialog
+                    filename={platformChoice.rom.name}
+                    detection={platformChoice.detection}
+                    onChoose={(choice) => {
+                        setPlatformChoice(null);
+                        loadHostRom(platformChoice.rom, choice);
+                    }}
+                    onCancel={() => setPlatformChoice(null)}
+                />
+            )}
+
+            {confirmQueue.length > 0 && (
+                <ConfirmDialog
+                    key={confirmQueue.length}
+                    request={confirmQueue[0]}
+                    onClose={() => setConfirmQueue(prev => prev.slice(1))}
+                />
+            )}
+
+            {isChatOpen && (
+                <ChatPanel
+                    messages={chatMessages}
+                    onSend={sendChat}
+                    onClose={() => setIsChatOpen(false)}
+                    soundEnabled={chatSound}
+                    onToggleSound={() => setChatSound(!chatSound)}
+                />
+            )}
+
             {/* Settings Drawer - Now overlaid on all screens */}
             
             {/* Backdrop */}
@@ -580,17 +2861,73 @@ const App: React.FC = () => {
             `}>
                 <ControlPanel 
                     isHost={role === ConnectionRole.HOST}
+                    canLoadRom={role === ConnectionRole.HOST || (role === ConnectionRole.GUEST && netplayMode === NetplayMode.LOCKSTEP)}
+                    netplayMode={netplayMode}
+                    onNetplayModeChange={handleNetplayModeChange}
+                    playerSeats={role === ConnectionRole.HOST ? playerSeats : []}
+                    hostPort={hostPort}
+                    onAssignPort={assignPort}
+                    onToggleSharedPort={toggleSharedPort}
+                    onToggleGuestLock={toggleGuestLock}
+                    pauseOnDisconnect={pauseOnDisconnect}
+                    pauseWhenHidden={pauseWhenHidden}
+                    onTogglePauseWhenHidden={setPauseWhenHidden}
+                    isPaused={playback.reason === 'host'}
+                    onTogglePause={togglePause}
+                    gameSpeed={gameSpeed}
+                    onSpeedChange={changeSpeed}
+                    fastForwardRatio={fastForwardRatio}
+                    onFastForwardRatioChange={setFastForwardRatio}
+                    onTogglePauseOnDisconnect={setPauseOnDisconnect}
+                    streamQuality={streamQuality}
+                    onStreamQualityChange={handleStreamQualityChange}
+                    onShareState={role === ConnectionRole.HOST && guestPorts.length > 0 ? shareStateWithGuests : undefined}
+                    sharedStates={role === ConnectionRole.GUEST ? sharedStates : undefined}
+                    onDownloadSharedState={downloadSharedState}
+                    onSendSharedState={sendSharedState}
+                    onSendStateFile={sendStateFile}
+                    romTransfers={Object.values(romTransfers)}
+                    onCancelRomTransfer={cancelRomTransfer}
+                    onDownloadRom={role === ConnectionRole.GUEST && netplayMode === NetplayMode.LOCKSTEP && hostRomInfo && !isRomDownloading ? requestRomFromHost : undefined}
                     currentPlatform={platform}
                     romName={romName}
                     onRomSelect={handleRomSelect}
-                    onSaveState={handleSaveState}
-                    onLoadState={handleLoadState}
+                    onManageBios={() => setIsBiosManagerOpen(true)}
+                    onOpenLibrary={() => setIsLibraryOpen(true)}
+                    libraryEnabled={libraryEnabled}
+                    onToggleLibrary={toggleLibraryEnabled}
+                    discCount={discCount}
+                    currentDisc={currentDisc}
+                    onSwapDisc={handleSwapDisc}
+                    saveSlots={saveSlots}
+                    selectedSlot={selectedSlot}
+                    canUseSlots={!!romName && currentRomId() !== null}
+                    onSelectSlot={setSelectedSlot}
+                    onSaveSlot={saveToSlot}
+                    onLoadSlot={loadFromSlot}
+                    onDeleteSlot={deleteSaveSlot}
+                    onExportSlot={exportSaveSlot}
+                    onExportAllSlots={exportAllSaveSlots}
+                    onImportSlots={importSaveSlots}
+                    onExportSaveRam={exportSaveRam}
+                    onImportSaveRam={importSaveRam}
+                    rewindSettings={rewindSettingsFor(rewindOverrides, platform)}
+                    onRewindSettingsChange={updateRewindSettings}
                     onReset={handlePowerOff}
                     volume={volume}
                     onVolumeChange={handleVolumeChange}
                     onClose={() => setIsSettingsOpen(false)}
                     enableCRT={enableCRT}
                     onToggleCRT={setEnableCRT}
+                    canUseVoice={role !== ConnectionRole.SPECTATOR}
+                    voiceActive={voiceActive}
+                    onToggleVoice={voiceActive ? leaveVoice : joinVoice}
+                    voiceMode={voiceMode}
+                    onVoiceModeChange={setVoiceMode}
+                    voiceMuted={voiceMuted}
+                    onToggleVoiceMute={setVoiceMuted}
+                    voiceVolume={voiceVolume}
+                    onVoiceVolumeChange={handleVoiceVolumeChange}
                 />
             </aside>
         </div>
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { StoredBios } from '../types';
+import { PLATFORM_LIST } from '../engine/platforms';
+import { addBios, listBios, removeBios } from '../services/biosStore';
+
+interface BiosManagerProps {
+  onClose: () => void;
+}
+
+// Systems whose core can use a BIOS
+const BIOS_PLATFORMS = PLATFORM_LIST.filter(p => p.bios.length > 0);
+
+export const BiosManager: React.FC<BiosManagerProps> = ({ onClose }) => {
+  const [stored, setStored] = useState<StoredBios[]>([]);
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const refresh = () => listBios().then(setStored).catch(e => setMessages([`Storage unavailable: ${e.message}`]));
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleFiles = async (files: File[]) => {
+    const results = await Promise.all(files.map(file =>
+      addBios(file).then(bios => `Added ${bios.file}`, (e: Error) => e.message)
+    ));
+    setMessages(results);
+    refresh();
+  };
+
+  const handleRemove = async (file: string) => {
+    await removeBios(file).catch(e => console.warn('Failed to remove BIOS', e));
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+        <div className="w-full max-w-md bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl p-5 space-y-4">
+            <div className="flex items-start justify-between">
+                <div className="space-y-1">
+                    <h3 className="text-sm font-bold text-white">BIOS Files</h3>
+                    <p className="text-xs text-zinc-400">Checked against known good dumps and loaded with every game for their system. Stored in this browser only.</p>
+                </div>
+                <button onClick={onClose} className="text-zinc-500 hover:text-white" aria-label="Close">
+                    <i className="ph ph-x"></i>
+                </button>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto space-y-3">
+                {BIOS_PLATFORMS.map(sys => (
+                    <div key={sys.id} className="space-y-1">
+                        <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">{sys.label}</div>
+                        {sys.bios.map(req => {
+                            const installed = stored.find(b => b.file === req.file);
+                            return (
+                                <div key={req.file} className="flex items-center justify-between gap-2 px-3 py-2 bg-zinc-800/50 rounded-md">
+                                    <div className="min-w-0">
+                                        <div className="text-xs text-zinc-200 font-mono truncate">{req.file}</div>
+                                        <div className="text-[10px] text-zinc-500 truncate">{req.description}{req.required ? '' : ' (optional)'}</div>
+                                    </div>
+                                    {installed ? (
+                                        <div className="flex items-center gap-2 shrink-0">
+                                            <span className="text-[10px] text-emerald-400 flex items-center gap-1"><i className="ph-fill ph-check-circle"></i> Verified</span>
+                                            <button
+                                                onClick={() => handleRemove(req.file)}
+                                                className="text-zinc-500 hover:text-red-400"
+                                                title="Remove"
+                                            >
+                                                <i className="ph ph-trash"></i>
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <span className="text-[10px] text-zinc-600 shrink-0">Missing</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+
+            {messages.length > 0 && (
+                <div className="space-y-0.5">
+                    {messages.map((m, i) => <p key={i} className="text-[10px] text-zinc-400">{m}</p>)}
+                </div>
+            )}
+
+            <label className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-md text-xs font-medium transition-colors cursor-pointer">
+                <i className="ph ph-upload-simple"></i> Add BIOS Files
+                <input
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                        if (e.target.files && e.target.files.length > 0) handleFiles(Array.from(e.target.files));
+                        e.target.value = '';
+                    }}
+                />
+            </label>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage } from '../types';
+import { CHAT_MAX_LENGTH } from '../services/protocol';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onSend: (text: string) => void;
+  onClose: () => void;
+  soundEnabled: boolean;
+  onToggleSound: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSend, onClose, soundEnabled, onToggleSound }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-30 w-72 h-96 max-h-[80%] flex flex-col bg-zinc-900/95 backdrop-blur border border-zinc-800 rounded-lg shadow-2xl">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+            <span className="text-xs font-bold uppercase tracking-wider text-zinc-400">Chat</span>
+            <div className="flex items-center gap-1 text-zinc-500">
+                <button
+                    onClick={onToggleSound}
+                    className="p-1 hover:text-white transition-colors"
+                    title={soundEnabled ? 'Mute Message Sound' : 'Unmute Message Sound'}
+                >
+                    <i className={`ph ${soundEnabled ? 'ph-bell' : 'ph-bell-slash'}`}></i>
+                </button>
+                <button onClick={onClose} className="p-1 hover:text-white transition-colors" aria-label="Close Chat" title="Close (Esc)">
+                    <i className="ph ph-x"></i>
+                </button>
+            </div>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-2 text-xs">
+            {messages.length === 0 && (
+                <div className="text-zinc-600 text-center mt-4">No messages yet</div>
+            )}
+            {messages.map(msg => (
+                <div key={msg.id} className="break-words">
+                    <div className="flex items-baseline gap-2">
+                        <span className={`font-bold ${msg.isLocal ? 'text-indigo-400' : 'text-emerald-400'}`}>{msg.sender}</span>
+                        <span className="text-[10px] text-zinc-600 font-mono">{formatTime(msg.sentAt)}</span>
+                    </div>
+                    <p className="text-zinc-200">{msg.text}</p>
+                </div>
+            ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-2 border-t border-zinc-800">
+            <input
+                ref={inputRef}
+                type="text"
+                value={draft}
+                maxLength={CHAT_MAX_LENGTH}
+                placeholder="Say something..."
+                onChange={(e) => setDraft(e.target.value)}
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-md px-3 py-2 text-white text-xs focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none placeholder-zinc-600"
+            />
+        </form>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+
+export interface ConfirmRequest {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  cancelLabel?: string;
+  onConfirm: () => void;
+  onCancel?: () => void;
+}
+
+interface ConfirmDialogProps {
+  request: ConfirmRequest;
+  onClose: () => void;
+}
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ request, onClose }) => {
+  const confirm = () => {
+    onClose();
+    request.onConfirm();
+  };
+
+  const cancel = () => {
+    onClose();
+    request.onCancel?.();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+        <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl p-5 space-y-4">
+            <div className="space-y-1">
+                <h3 className="text-sm font-bold text-white">{request.title}</h3>
+                <p className="text-xs text-zinc-400">{request.message}</p>
+            </div>
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={cancel}
+                    className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-medium transition-colors"
+                >
+                    {request.cancelLabel ?? 'Cancel'}
+                </button>
+                <button
+                    onClick={confirm}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-md text-xs font-medium transition-colors"
+                >
+                    {request.confirmLabel}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
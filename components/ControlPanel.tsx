@@ -1,45 +1,228 @@
 import React from 'react';
-import { Platform } from '../types';
+import { Platform, NetplayMode, VoiceMode, StreamQualityConfig, StreamQualityPreset, StreamQualitySettings, VideoCodec, RomTransferProgress, SharedState, PlayerSeat, ControllerInput, SaveSlot, RewindSettings, PlaybackSpeed } from '../types';
+import { CONTROLLER_PORTS } from '../engine/VirtualConsole';
+import { ALL_ROM_EXTENSIONS, PLATFORM_LIST, getPlatformInfo } from '../engine/platforms';
+import { ARCHIVE_ACCEPT } from '../services/archive';
+import { REWIND_SECONDS_OPTIONS } from '../services/rewindSettings';
+import { SaveSlots } from './SaveSlots';
 
 interface ControlPanelProps {
   isHost: boolean;
+  canLoadRom: boolean;
+  netplayMode: NetplayMode;
+  onNetplayModeChange: (mode: NetplayMode) => void;
+  pauseOnDisconnect: boolean;
+  onTogglePauseOnDisconnect: (enabled: boolean) => void;
+  pauseWhenHidden: boolean;
+  onTogglePauseWhenHidden: (enabled: boolean) => void;
+  isPaused: boolean; // Paused by the host's own hand
+  onTogglePause: () => void;
+  gameSpeed: PlaybackSpeed;
+  onSpeedChange: (speed: PlaybackSpeed) => void;
+  fastForwardRatio: number;
+  onFastForwardRatioChange: (ratio: number) => void;
+  playerSeats: PlayerSeat[]; // Host only; empty until a guest joins
+  hostPort: number;
+  onAssignPort: (id: string, port: number) => void;
+  onToggleSharedPort: (id: string) => void;
+  onToggleGuestLock: (id: string) => void;
+  streamQuality: StreamQualityConfig;
+  onStreamQualityChange: (config: StreamQualityConfig) => void;
+  romTransfers: RomTransferProgress[];
+  onCancelRomTransfer: (id: string) => void;
+  onDownloadRom?: () => void; // Set while a lockstep guest can fetch the host's ROM
   currentPlatform: Platform;
   romName: string | null;
-  onRomSelect: (file: File) => void;
-  onSaveState: () => void;
-  onLoadState: () => void;
+  onRomSelect: (files: File[]) => void;
+  onManageBios: () => void;
+  onOpenLibrary: () => void;
+  libraryEnabled: boolean;
+  onToggleLibrary: (enabled: boolean) => void;
+  discCount: number; // Above 1 for a multi-disc game
+  currentDisc: number;
+  onSwapDisc: () => void;
+  saveSlots: SaveSlot[];
+  selectedSlot: number;
+  canUseSlots: boolean;
+  onSelectSlot: (slot: number) => void;
+  onSaveSlot: (slot: number) => void;
+  onLoadSlot: (slot: number) => void;
+  onDeleteSlot: (slot: number) => void;
+  onExportSlot: (slot: number) => void;
+  onExportAllSlots: () => void;
+  onImportSlots: () => void;
+  onExportSaveRam: () => void;
+  onImportSaveRam: () => void;
+  rewindSettings: RewindSettings; // For the current system
+  onRewindSettingsChange: (settings: RewindSettings) => void;
+  onShareState?: () => void; // Set while the host has guests to send a state to
+  sharedStates?: SharedState[]; // Set for guests
+  onDownloadSharedState: (id: number) => void;
+  onSendSharedState: (id: number) => void;
+  onSendStateFile: () => void;
   onReset: () => void;
   volume: number;
   onVolumeChange: (v: number) => void;
   onClose?: () => void;
   enableCRT: boolean;
   onToggleCRT: (enabled: boolean) => void;
+  canUseVoice: boolean;
+  voiceActive: boolean;
+  onToggleVoice: () => void;
+  voiceMode: VoiceMode;
+  onVoiceModeChange: (mode: VoiceMode) => void;
+  voiceMuted: boolean;
+  onToggleVoiceMute: (muted: boolean) => void;
+  voiceVolume: number;
+  onVoiceVolumeChange: (v: number) => void;
 }
 
-const ALL_EXTENSIONS = ".nes,.sfc,.smc,.gb,.gba,.smd,.gen,.bin,.md,.iso,.img,.cue";
+// Local keys for each pad button (see InputService.getInput); only the current system's buttons are listed
+const BUTTON_KEYS: { button: keyof ControllerInput; keys: string; label: string }[] = [
+    { button: 'a', keys: 'X / K', label: 'A Button' },
+    { button: 'b', keys: 'Z / J', label: 'B Button' },
+    { button: 'x', keys: 'I', label: 'X Button' },
+    { button: 'y', keys: 'U', label: 'Y Button' },
+    { button: 'l', keys: 'Q', label: 'L Button' },
+    { button: 'r', keys: 'E', label: 'R Button' },
+    { button: 'start', keys: 'Enter', label: 'Start' },
+    { button: 'select', keys: 'Shift', label: 'Select' },
+];
 
-const SYSTEMS = [
-    { id: Platform.NES, label: 'NES', activeClass: 'bg-red-500/10 border-red-500/50 text-red-200 shadow-[0_0_15px_-3px_rgba(239,68,68,0.3)]' },
-    { id: Platform.SNES, label: 'SNES', activeClass: 'bg-indigo-500/10 border-indigo-500/50 text-indigo-200 shadow-[0_0_15px_-3px_rgba(99,102,241,0.3)]' },
-    { id: Platform.GB, label: 'GAME BOY', activeClass: 'bg-emerald-500/10 border-emerald-500/50 text-emerald-200 shadow-[0_0_15px_-3px_rgba(16,185,129,0.3)]' },
-    { id: Platform.GBA, label: 'GBA', activeClass: 'bg-purple-500/10 border-purple-500/50 text-purple-200 shadow-[0_0_15px_-3px_rgba(168,85,247,0.3)]' },
-    { id: Platform.GENESIS, label: 'GENESIS', activeClass: 'bg-amber-500/10 border-amber-500/50 text-amber-200 shadow-[0_0_15px_-3px_rgba(245,158,11,0.3)]' },
-    { id: Platform.PSX, label: 'PSX', activeClass: 'bg-blue-500/10 border-blue-500/50 text-blue-200 shadow-[0_0_15px_-3px_rgba(59,130,246,0.3)]' },
+const QUALITY_PRESETS = [
+    { preset: StreamQualityPreset.LOW_LATENCY, label: 'Low Latency', icon: 'ph-lightning' },
+    { preset: StreamQualityPreset.BALANCED, label: 'Balanced', icon: 'ph-scales' },
+    { preset: StreamQualityPreset.HIGH_QUALITY, label: 'High Quality', icon: 'ph-sparkle' },
+    { preset: StreamQualityPreset.AUTO, label: 'Auto', icon: 'ph-magic-wand' },
+    { preset: StreamQualityPreset.MANUAL, label: 'Manual', icon: 'ph-faders' },
 ];
 
+const QUALITY_HINTS: Record<StreamQualityPreset, string> = {
+    [StreamQualityPreset.LOW_LATENCY]: '60fps at half resolution with the fastest codec.',
+    [StreamQualityPreset.BALANCED]: '30fps at full resolution, up to 2.5 Mbps.',
+    [StreamQualityPreset.HIGH_QUALITY]: '60fps at full resolution, up to 8 Mbps. Needs a strong connection.',
+    [StreamQualityPreset.AUTO]: 'Lowers quality per guest when their link shows packet loss or rising ping.',
+    [StreamQualityPreset.MANUAL]: 'Frame rate and codec changes restart the stream.',
+};
+
+const CODECS: VideoCodec[] = ['auto', 'VP8', 'VP9', 'H264', 'AV1'];
+const SCALE_OPTIONS = [1, 1.5, 2, 3];
+
+// Fine-grained encoder limits for the Manual stream quality preset
+const ManualQualityControls: React.FC<{ settings: StreamQualitySettings; onChange: (settings: StreamQualitySettings) => void }> = ({ settings, onChange }) => {
+  const update = (patch: Partial<StreamQualitySettings>) => onChange({ ...settings, ...patch });
+  const selectClass = "w-full bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1.5 text-white text-xs outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="space-y-3 bg-zinc-800/50 p-3 rounded-lg">
+        <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+                <span className="text-[10px] text-zinc-500 uppercase tracking-wider">FPS</span>
+                <select value={settings.fps} onChange={(e) => update({ fps: parseInt(e.target.value, 10) })} className={selectClass}>
+                    {[15, 20, 30, 60].map(fps => <option key={fps} value={fps}>{fps}</option>)}
+                </select>
+            </div>
+            <div className="space-y-1">
+                <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Scale</span>
+                <select value={settings.scaleDown} onChange={(e) => update({ scaleDown: parseFloat(e.target.value) })} className={selectClass}>
+                    {SCALE_OPTIONS.map(scale => <option key={scale} value={scale}>{scale === 1 ? 'Full' : `1/${scale}`}</option>)}
+                </select>
+            </div>
+            <div className="space-y-1">
+                <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Codec</span>
+                <select value={settings.codec} onChange={(e) => update({ codec: e.target.value as VideoCodec })} className={selectClass}>
+                    {CODECS.map(codec => <option key={codec} value={codec}>{codec === 'auto' ? 'Auto' : codec}</option>)}
+                </select>
+            </div>
+        </div>
+        <div className="space-y-1">
+            <div className="flex justify-between items-center">
+                <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Max Bitrate</span>
+                <span className="text-xs text-zinc-500">{(settings.maxBitrateKbps / 1000).toFixed(2)} Mbps</span>
+            </div>
+            <input 
+              type="range" 
+              min="250" 
+              max="10000" 
+              step="250"
+              value={settings.maxBitrateKbps}
+              onChange={(e) => update({ maxBitrateKbps: parseInt(e.target.value, 10) })}
+              className="w-full h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+        </div>
+    </div>
+  );
+};
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   isHost,
+  canLoadRom,
+  netplayMode,
+  onNetplayModeChange,
+  pauseOnDisconnect,
+  onTogglePauseOnDisconnect,
+  pauseWhenHidden,
+  onTogglePauseWhenHidden,
+  isPaused,
+  onTogglePause,
+  gameSpeed,
+  onSpeedChange,
+  fastForwardRatio,
+  onFastForwardRatioChange,
+  playerSeats,
+  hostPort,
+  onAssignPort,
+  onToggleSharedPort,
+  onToggleGuestLock,
+  streamQuality,
+  onStreamQualityChange,
+  romTransfers,
+  onCancelRomTransfer,
+  onDownloadRom,
   currentPlatform,
   romName,
   onRomSelect,
-  onSaveState,
-  onLoadState,
+  onManageBios,
+  onOpenLibrary,
+  libraryEnabled,
+  onToggleLibrary,
+  discCount,
+  currentDisc,
+  onSwapDisc,
+  saveSlots,
+  selectedSlot,
+  canUseSlots,
+  onSelectSlot,
+  onSaveSlot,
+  onLoadSlot,
+  onDeleteSlot,
+  onExportSlot,
+  onExportAllSlots,
+  onImportSlots,
+  onExportSaveRam,
+  onImportSaveRam,
+  rewindSettings,
+  onRewindSettingsChange,
+  onShareState,
+  sharedStates,
+  onDownloadSharedState,
+  onSendSharedState,
+  onSendStateFile,
   onReset,
   volume,
   onVolumeChange,
   onClose,
   enableCRT,
-  onToggleCRT
+  onToggleCRT,
+  canUseVoice,
+  voiceActive,
+  onToggleVoice,
+  voiceMode,
+  onVoiceModeChange,
+  voiceMuted,
+  onToggleVoiceMute,
+  voiceVolume,
+  onVoiceVolumeChange
 }) => {
   return (
     <div className="bg-zinc-900 flex flex-col w-full h-full relative">
@@ -78,11 +261,12 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             </div>
             
             <div className="grid grid-cols-2 gap-2">
-                {SYSTEMS.map((sys) => {
+                {PLATFORM_LIST.map((sys) => {
                     const isActive = currentPlatform === sys.id;
                     return (
                         <div 
                             key={sys.id}
+                            title={[`.${sys.extensions.join(' .')}`, ...sys.bios.map(b => `${b.required ? 'Needs' : 'Optional'} BIOS: ${b.file}`)].join('\n')}
                             className={`flex flex-col items-center justify-center p-3 rounded-md border transition-all cursor-default select-none ${isActive ? sys.activeClass : 'bg-zinc-800/50 border-zinc-800 text-zinc-600 opacity-60'}`}
                         >
                             <span className="text-[10px] font-black tracking-widest">{sys.label}</span>
@@ -90,55 +274,340 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                     );
                 })}
             </div>
+            <button
+                onClick={onManageBios}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs transition-colors"
+            >
+                <i className="ph ph-cpu"></i> Manage BIOS Files
+            </button>
           </div>
 
-          {/* 2. ROM Loader - Hidden for Guest */}
+          {/* 2. Netplay Mode - Host picks, locked while a game is running */}
           {isHost && (
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-zinc-400">Netplay Mode</label>
+            <div className="grid grid-cols-2 gap-2">
+                {[
+                    { mode: NetplayMode.STREAM, label: 'Stream', icon: 'ph-broadcast' },
+                    { mode: NetplayMode.LOCKSTEP, label: 'Lockstep', icon: 'ph-arrows-left-right' },
+                ].map(({ mode, label, icon }) => (
+                    <button
+                        key={mode}
+                        onClick={() => onNetplayModeChange(mode)}
+                        disabled={!!romName}
+                        className={`flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm transition-colors disabled:opacity-50 ${netplayMode === mode ? 'bg-indigo-600 text-white' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'}`}
+                    >
+                        <i className={`ph ${icon}`}></i> {label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[10px] text-zinc-500">
+                {netplayMode === NetplayMode.LOCKSTEP
+                    ? 'Every player runs the game locally with their own copy of the ROM.'
+                    : 'Guests watch a video stream of your screen.'}
+                {romName && ' Power off to switch.'}
+            </p>
+            <div className="flex items-center justify-between bg-zinc-800 p-3 rounded-lg">
+                <span className="text-sm text-zinc-300">Pause when a player drops</span>
+                <button 
+                  onClick={() => onTogglePauseOnDisconnect(!pauseOnDisconnect)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${pauseOnDisconnect ? 'bg-indigo-600' : 'bg-zinc-700'}`}
+                >
+                    <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${pauseOnDisconnect ? 'translate-x-6' : 'translate-x-1'}`} />
+                </button>
+            </div>
+            <div className="flex items-center justify-between bg-zinc-800 p-3 rounded-lg">
+                <span className="text-sm text-zinc-300">Pause when this tab is hidden</span>
+                <button 
+                  onClick={() => onTogglePauseWhenHidden(!pauseWhenHidden)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${pauseWhenHidden ? 'bg-indigo-600' : 'bg-zinc-700'}`}
+                >
+                    <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${pauseWhenHidden ? 'translate-x-6' : 'translate-x-1'}`} />
+                </button>
+            </div>
+          </div>
+          )}
+
+          {/* 3. Players - Host moves, shares and locks controller ports */}
+          {isHost && playerSeats.length > 1 && (
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-zinc-400">Players</label>
+            {playerSeats.map(seat => {
+                const isShared = !seat.isHost && seat.port === hostPort;
+                return (
+                    <div key={seat.id} className="bg-zinc-800 p-3 rounded-lg space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className={`text-xs truncate ${seat.locked ? 'text-amber-400' : 'text-zinc-300'}`}>
+                                {seat.locked && <i className="ph ph-lock-simple mr-1"></i>}{seat.label}
+                            </span>
+                            {!seat.isHost && (
+                                <div className="flex gap-1 shrink-0">
+                                    <button
+                                        onClick={() => onToggleSharedPort(seat.id)}
+                                        disabled={!isShared && netplayMode === NetplayMode.LOCKSTEP}
+                                        className={`px-2 py-1 rounded text-[10px] font-medium transition-colors disabled:opacity-50 ${isShared ? 'bg-indigo-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+                                        title={isShared ? 'Give this player their own port' : `Drive P${hostPort} together with you`}
+                                    >
+                                        <i className="ph ph-users"></i> {isShared ? 'Shared' : `Share P${hostPort}`}
+                                    </button>
+                                    <button
+                                        onClick={() => onToggleGuestLock(seat.id)}
+                                        className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${seat.locked ? 'bg-amber-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+                                        title={seat.locked ? 'Accept this player\'s input again' : 'Ignore this player\'s input'}
+                                    >
+                                        <i className={`ph ${seat.locked ? 'ph-lock-simple' : 'ph-lock-simple-open'}`}></i> {seat.locked ? 'Locked' : 'Lock'}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-4 gap-1">
+                            {CONTROLLER_PORTS.map(port => (
+                                <button
+                                    key={port}
+                                    onClick={() => onAssignPort(seat.id, port)}
+                                    className={`py-1 rounded text-xs font-mono transition-colors ${seat.port === port ? 'bg-indigo-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-400'}`}
+                                >
+                                    P{port}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+            <p className="text-[10px] text-zinc-500">Picking a taken port swaps the two players.{netplayMode === NetplayMode.LOCKSTEP && ' Lockstep restarts from the current frame on every change.'}</p>
+          </div>
+          )}
+
+          {/* 4. Stream Quality - Host, only while guests watch a video stream */}
+          {isHost && netplayMode === NetplayMode.STREAM && (
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-zinc-400">Stream Quality</label>
+            <div className="grid grid-cols-3 gap-2">
+                {QUALITY_PRESETS.map(({ preset, label, icon }) => (
+                    <button
+                        key={preset}
+                        onClick={() => onStreamQualityChange({ ...streamQuality, preset })}
+                        className={`flex flex-col items-center justify-center gap-1 px-2 py-2 rounded-md text-[11px] transition-colors ${streamQuality.preset === preset ? 'bg-indigo-600 text-white' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'}`}
+                    >
+                        <i className={`ph ${icon} text-base`}></i> {label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[10px] text-zinc-500">{QUALITY_HINTS[streamQuality.preset]}</p>
+
+            {streamQuality.preset === StreamQualityPreset.MANUAL && (
+                <ManualQualityControls
+                    settings={streamQuality.manual}
+                    onChange={(manual) => onStreamQualityChange({ ...streamQuality, manual })}
+                />
+            )}
+          </div>
+          )}
+
+          {/* 5. ROM Loader - Host, or Guest providing their own copy in lockstep */}
+          {canLoadRom && (
           <div className="space-y-2">
             <label className="text-sm font-semibold text-zinc-400">Game ROM</label>
-            <label className={`group flex flex-col items-center justify-center w-full h-28 border-2 border-dashed rounded-lg transition-all relative overflow-hidden ${!isHost ? 'opacity-50 cursor-not-allowed border-zinc-700' : 'cursor-pointer border-zinc-700 hover:border-indigo-500 hover:bg-zinc-800/50'}`}>
+            {!isHost && (
+                <p className="text-[10px] text-zinc-500">Lockstep session: load the same ROM as the host, or download it. Your copy is checked against the host's hash.</p>
+            )}
+            <label
+                className="group flex flex-col items-center justify-center w-full h-28 border-2 border-dashed rounded-lg transition-all relative overflow-hidden cursor-pointer border-zinc-700 hover:border-indigo-500 hover:bg-zinc-800/50"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                    // A disc image arrives as its cue sheet plus track files, so take every dropped file
+                    e.preventDefault();
+                    if (e.dataTransfer.files.length > 0) onRomSelect(Array.from(e.dataTransfer.files));
+                }}
+            >
                 <div className="flex flex-col items-center justify-center p-4 z-10 w-full">
                     <i className={`ph ph-floppy-disk-back text-2xl mb-2 ${romName ? 'text-indigo-400' : 'text-zinc-500'}`}></i>
                     <p className="text-xs text-zinc-300 font-medium px-2 text-center truncate w-full">
                         {romName ? romName : "Load ROM File"}
                     </p>
                     <span className="mt-2 text-[10px] text-zinc-500 uppercase tracking-wide bg-zinc-900/50 px-2 py-1 rounded">
-                        Click to Upload
+                        Click or Drop Files
                     </span>
                 </div>
                 <input 
                     type="file" 
+                    multiple
                     className="hidden" 
-                    onChange={(e) => e.target.files && e.target.files[0] && onRomSelect(e.target.files[0])}
-                    accept={ALL_EXTENSIONS} 
+                    onChange={(e) => e.target.files && e.target.files.length > 0 && onRomSelect(Array.from(e.target.files))}
+                    accept={`${ALL_ROM_EXTENSIONS},${ARCHIVE_ACCEPT}`} 
                 />
                 {romName && <div className="absolute bottom-0 left-0 h-1 bg-indigo-500 w-full shadow-[0_0_10px_rgba(99,102,241,0.5)]"></div>}
             </label>
+            <button
+                onClick={onOpenLibrary}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors"
+            >
+                <i className="ph ph-books"></i> Open Library
+            </button>
+            {isHost && (
+                <div className="flex items-center justify-between bg-zinc-800 p-3 rounded-lg">
+                    <span className="text-sm text-zinc-300">Save loaded games to library</span>
+                    <button 
+                      onClick={() => onToggleLibrary(!libraryEnabled)}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${libraryEnabled ? 'bg-indigo-600' : 'bg-zinc-700'}`}
+                    >
+                        <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${libraryEnabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                    </button>
+                </div>
+            )}
+            {onDownloadRom && (
+                <button
+                    onClick={onDownloadRom}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors"
+                >
+                    <i className="ph ph-download-simple"></i> Download from Host
+                </button>
+            )}
+            {romTransfers.map(transfer => {
+                const pct = transfer.bytesTotal > 0 ? Math.floor((transfer.bytesDone / transfer.bytesTotal) * 100) : 0;
+                return (
+                    <div key={transfer.id} className="bg-zinc-800 p-3 rounded-lg space-y-1.5">
+                        <div className="flex items-center justify-between gap-2 text-xs">
+                            <span className="text-zinc-300 truncate">
+                                <i className={`ph ${transfer.direction === 'upload' ? 'ph-upload-simple' : 'ph-download-simple'} mr-1`}></i>
+                                {transfer.direction === 'upload' ? `To ${transfer.label}` : `From ${transfer.label}`}: {transfer.name}
+                            </span>
+                            <button onClick={() => onCancelRomTransfer(transfer.id)} className="text-zinc-500 hover:text-red-400 transition-colors" aria-label="Cancel Transfer">
+                                <i className="ph ph-x"></i>
+                            </button>
+                        </div>
+                        <div className="h-1.5 bg-zinc-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${pct}%` }}></div>
+                        </div>
+                        <div className="text-[10px] text-zinc-500 font-mono text-right">
+                            {(transfer.bytesDone / 1048576).toFixed(1)} / {(transfer.bytesTotal / 1048576).toFixed(1)} MB
+                        </div>
+                    </div>
+                );
+            })}
           </div>
           )}
 
-          {/* 3. Game State Controls - Hidden for Guest */}
+          {/* 6. Game State Controls - Hidden for Guest */}
           {isHost && (
           <div className="space-y-3">
             <label className="text-sm font-semibold text-zinc-400">Game State</label>
+
+            <div className="grid grid-cols-4 gap-1.5">
+                <button
+                  onClick={onTogglePause}
+                  disabled={!romName}
+                  className="flex items-center justify-center gap-1 px-2 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
+                  title={isPaused ? 'Resume (P)' : 'Pause (P)'}
+                >
+                    <i className={`ph-fill ${isPaused ? 'ph-play' : 'ph-pause'}`}></i>
+                </button>
+                {([['slow', '0.5x'], ['normal', '1x'], ['fast', `${fastForwardRatio}x`]] as [PlaybackSpeed, string][]).map(([speed, label]) => (
+                    <button
+                      key={speed}
+                      onClick={() => onSpeedChange(speed)}
+                      disabled={!romName || netplayMode === NetplayMode.LOCKSTEP}
+                      title={netplayMode === NetplayMode.LOCKSTEP ? 'Every player must run at the same speed in lockstep mode' : speed === 'fast' ? 'Fast-forward (F)' : undefined}
+                      className={`px-2 py-2 rounded-md text-xs font-mono transition-colors disabled:opacity-50 ${
+                          gameSpeed === speed ? 'bg-indigo-600 text-white' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                      }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Fast-forward speed</span>
+                <select
+                  value={fastForwardRatio}
+                  onChange={(e) => onFastForwardRatioChange(parseInt(e.target.value, 10))}
+                  disabled={!!romName}
+                  className="w-24 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-white text-xs outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                    {[2, 4].map(ratio => <option key={ratio} value={ratio}>{ratio}x</option>)}
+                </select>
+            </div>
+            <p className="text-[10px] text-zinc-500">
+                The game starts with this fast-forward speed.
+                {romName && ' Power off to switch.'}
+            </p>
             
-            <div className="grid grid-cols-2 gap-2">
-              <button 
-                onClick={onSaveState}
-                disabled={!isHost || !romName}
-                className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
-              >
-                <i className="ph ph-floppy-disk"></i> Save
-              </button>
-              <button 
-                onClick={onLoadState}
-                disabled={!isHost || !romName}
-                className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
-              >
-                <i className="ph ph-upload-simple"></i> Load
-              </button>
+            <SaveSlots
+              slots={saveSlots}
+              selectedSlot={selectedSlot}
+              disabled={!canUseSlots}
+              onSelect={onSelectSlot}
+              onSave={onSaveSlot}
+              onLoad={onLoadSlot}
+              onDelete={onDeleteSlot}
+              onExport={onExportSlot}
+              onExportAll={onExportAllSlots}
+              onImport={onImportSlots}
+            />
+
+            <div className="flex items-center gap-1 text-[10px]">
+                <span className="text-zinc-500 flex items-center gap-1" title="In-game saves are kept automatically for each game">
+                    <i className="ph ph-battery-charging"></i> Battery save
+                </span>
+                <span className="flex-1"></span>
+                <button onClick={onExportSaveRam} disabled={!canUseSlots} className="px-2 py-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40">
+                    Export .srm
+                </button>
+                <button onClick={onImportSaveRam} disabled={!canUseSlots} className="px-2 py-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40">
+                    Import .srm
+                </button>
+            </div>
+
+            <div className="space-y-2 bg-zinc-800 p-3 rounded-lg">
+                <div className="flex items-center justify-between">
+                    <span className="text-sm text-zinc-300">Rewind ({getPlatformInfo(currentPlatform).label})</span>
+                    <button 
+                      onClick={() => onRewindSettingsChange({ ...rewindSettings, enabled: !rewindSettings.enabled })}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${rewindSettings.enabled ? 'bg-indigo-600' : 'bg-zinc-700'}`}
+                    >
+                        <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${rewindSettings.enabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                    </button>
+                </div>
+                {rewindSettings.enabled && (
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Reach</span>
+                        <select
+                          value={rewindSettings.seconds}
+                          onChange={(e) => onRewindSettingsChange({ ...rewindSettings, seconds: parseInt(e.target.value, 10) })}
+                          className="w-24 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-white text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                            {REWIND_SECONDS_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{seconds} s</option>)}
+                        </select>
+                    </div>
+                )}
+                <p className="text-[10px] text-zinc-500">
+                    {netplayMode === NetplayMode.LOCKSTEP
+                        ? 'Off in lockstep mode, where every player runs the game.'
+                        : 'Hold R to rewind. Longer reaches use more memory.'}
+                </p>
             </div>
 
+            {discCount > 1 && (
+                <button
+                  onClick={onSwapDisc}
+                  disabled={netplayMode === NetplayMode.LOCKSTEP}
+                  title={netplayMode === NetplayMode.LOCKSTEP ? 'Disc swaps are not synced in lockstep mode' : undefined}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
+                >
+                  <i className="ph ph-disc"></i> Swap Disc ({currentDisc + 1} of {discCount})
+                </button>
+            )}
+
+            {onShareState && (
+                <button
+                  onClick={onShareState}
+                  disabled={!romName}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
+                >
+                  <i className="ph ph-share-network"></i> Send State to Players
+                </button>
+            )}
+
             <button 
               onClick={onReset}
               disabled={!isHost || !romName}
@@ -149,7 +618,43 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
           )}
 
-          {/* 4. Display Options (CRT Filter) */}
+          {/* 6. Shared States - Guest, states the host sent plus sending one back */}
+          {sharedStates && (
+          <div className="space-y-3">
+            <label className="text-sm font-semibold text-zinc-400">Shared States</label>
+            {sharedStates.length === 0 ? (
+                <p className="text-[10px] text-zinc-500">States the host sends you appear here.</p>
+            ) : (
+                <div className="space-y-2">
+                    {sharedStates.map(entry => (
+                        <div key={entry.id} className="flex items-center justify-between gap-2 bg-zinc-800 p-2 rounded-lg">
+                            <div className="min-w-0">
+                                <p className="text-xs text-zinc-300 truncate">{entry.romName}</p>
+                                <p className="text-[10px] text-zinc-500">From {entry.from} at {new Date(entry.receivedAt).toLocaleTimeString()}</p>
+                            </div>
+                            <div className="flex gap-1 shrink-0">
+                                <button onClick={() => onDownloadSharedState(entry.id)} className="p-1.5 text-zinc-400 hover:text-white transition-colors" aria-label="Download State">
+                                    <i className="ph ph-download-simple"></i>
+                                </button>
+                                <button onClick={() => onSendSharedState(entry.id)} className="p-1.5 text-zinc-400 hover:text-indigo-400 transition-colors" aria-label="Send State to Host">
+                                    <i className="ph ph-paper-plane-tilt"></i>
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <button
+              onClick={onSendStateFile}
+              disabled={!romName}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
+            >
+              <i className="ph ph-upload-simple"></i> Send State File to Host
+            </button>
+          </div>
+          )}
+
+          {/* 7. Display Options (CRT Filter) */}
           <div className="space-y-2">
               <label className="text-sm font-semibold text-zinc-400">Display</label>
               <div className="flex items-center justify-between bg-zinc-800 p-3 rounded-lg">
@@ -165,7 +670,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
           <hr className="border-zinc-800" />
 
-          {/* 5. Volume */}
+          {/* 8. Volume */}
           <div className="space-y-2">
             <div className="flex justify-between items-center">
               <label className="text-sm font-semibold text-zinc-400">Master Volume</label>
@@ -182,16 +687,83 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             />
           </div>
 
-          {/* 6. Instructions */}
+          {/* 9. Voice Chat - Players only */}
+          {canUseVoice && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-semibold text-zinc-400">Voice Chat</label>
+              <button
+                onClick={onToggleVoice}
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-colors ${voiceActive ? 'bg-red-900/20 text-red-400 hover:bg-red-900/30' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
+              >
+                <i className={`ph ${voiceActive ? 'ph-phone-disconnect' : 'ph-headset'}`}></i> {voiceActive ? 'Leave' : 'Join'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                {[
+                    { mode: VoiceMode.PUSH_TO_TALK, label: 'Push to Talk', icon: 'ph-hand-pointing' },
+                    { mode: VoiceMode.OPEN_MIC, label: 'Open Mic', icon: 'ph-microphone' },
+                ].map(({ mode, label, icon }) => (
+                    <button
+                        key={mode}
+                        onClick={() => onVoiceModeChange(mode)}
+                        className={`flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm transition-colors ${voiceMode === mode ? 'bg-indigo-600 text-white' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'}`}
+                    >
+                        <i className={`ph ${icon}`}></i> {label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center justify-between bg-zinc-800 p-3 rounded-lg">
+                <span className="text-sm text-zinc-300">Mute Microphone</span>
+                <button 
+                  onClick={() => onToggleVoiceMute(!voiceMuted)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${voiceMuted ? 'bg-red-600' : 'bg-zinc-700'}`}
+                >
+                    <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${voiceMuted ? 'translate-x-6' : 'translate-x-1'}`} />
+                </button>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-zinc-500">Voice Volume</span>
+              <span className="text-xs text-zinc-500">{Math.round(voiceVolume * 100)}%</span>
+            </div>
+            <input 
+              type="range" 
+              min="0" 
+              max="1" 
+              step="0.05"
+              value={voiceVolume}
+              onChange={(e) => onVoiceVolumeChange(parseFloat(e.target.value))}
+              className="w-full h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+          )}
+
+          {/* 10. Instructions */}
           <div className="mt-4 bg-zinc-800/30 p-4 rounded-lg border border-zinc-800">
             <h3 className="text-xs font-bold text-zinc-400 mb-2 uppercase tracking-wider">Controls</h3>
             <div className="grid grid-cols-2 gap-y-1 text-xs text-zinc-500 font-mono">
               <span>D-Pad / WASD</span>
               <span className="text-right">Move</span>
-              <span>X / K</span>
-              <span className="text-right">A Button</span>
-              <span>Z / J</span>
-              <span className="text-right">B Button</span>
+              {BUTTON_KEYS.filter(({ button }) => getPlatformInfo(currentPlatform).buttons.includes(button)).map(({ button, keys, label }) => (
+                  <React.Fragment key={button}>
+                      <span>{keys}</span>
+                      <span className="text-right">{label}</span>
+                  </React.Fragment>
+              ))}
+              <span>T</span>
+              <span className="text-right">Chat</span>
+              <span>Hold V</span>
+              <span className="text-right">Push to Talk</span>
+              {isHost && (
+                  <>
+                      <span>F5 / F9</span>
+                      <span className="text-right">Quick Save / Load</span>
+                      <span>Hold R</span>
+                      <span className="text-right">Rewind</span>
+                      <span>P / F</span>
+                      <span className="text-right">Pause / Fast-forward</span>
+                  </>
+              )}
             </div>
           </div>
       </div>
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { RomSet } from '../types';
+import { formatSize } from './formatting';
+
+interface GameChoiceDialogProps {
+  sourceName: string; // The archive or selection the games came from
+  sets: RomSet[];
+  onChoose: (rom: RomSet) => void;
+  onCancel: () => void;
+}
+
+const totalSize = (rom: RomSet) => rom.files.reduce((sum, f) => sum + f.size, 0);
+
+export const GameChoiceDialog: React.FC<GameChoiceDialogProps> = ({ sourceName, sets, onChoose, onCancel }) => {
+  const [filter, setFilter] = useState('');
+  const shown = sets.filter(rom => rom.name.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+        <div className="w-full max-w-md bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl p-5 space-y-4">
+            <div className="space-y-1">
+                <h3 className="text-sm font-bold text-white">Choose a game</h3>
+                <p className="text-xs text-zinc-400 truncate" title={sourceName}>{sourceName} holds {sets.length} games</p>
+            </div>
+            {sets.length > 6 && (
+                <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter..."
+                    autoFocus
+                    className="w-full bg-zinc-950 border border-zinc-800 rounded-md px-3 py-2 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                />
+            )}
+            <div className="max-h-72 overflow-y-auto space-y-1">
+                {shown.map((rom, i) => (
+                    <button
+                        key={`${rom.name}-${i}`}
+                        onClick={() => onChoose(rom)}
+                        className="w-full flex items-center justify-between gap-3 px-3 py-2 bg-zinc-800/50 hover:bg-zinc-700 text-zinc-200 rounded-md text-xs text-left transition-colors"
+                    >
+                        <span className="truncate" title={rom.name}>{rom.name}</span>
+                        <span className="shrink-0 text-[10px] text-zinc-500">
+                            {rom.discs > 1 && `${rom.discs} discs · `}{formatSize(totalSize(rom))}
+                        </span>
+                    </button>
+                ))}
+                {shown.length === 0 && <p className="text-xs text-zinc-500 text-center py-4">No matching games</p>}
+            </div>
+            <div className="flex justify-end">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-medium transition-colors"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,17 +1,30 @@
 import React, { useState, useEffect } from 'react';
+import { NetworkSettings, JoinIdentity } from '../types';
+import { NetworkSettingsPanel } from './NetworkSettingsPanel';
+import { DISPLAY_NAME_MAX_LENGTH, loadDisplayName } from '../services/profile';
+import { PLATFORM_LIST } from '../engine/platforms';
 
 interface LobbyProps {
-  onCreate: () => void;
-  onJoin: (id: string) => void;
+  onCreate: (password: string) => void;
+  onJoin: (id: string, identity: JoinIdentity) => void;
+  onWatch: (id: string, identity: JoinIdentity) => void;
   isConnecting: boolean;
+  networkSettings: NetworkSettings;
+  onNetworkSettingsChange: (settings: NetworkSettings) => void;
+  onNetworkSettingsReset: () => void;
 }
 
-export const Lobby: React.FC<LobbyProps> = ({ onCreate, onJoin, isConnecting }) => {
+export const Lobby: React.FC<LobbyProps> = ({ onCreate, onJoin, onWatch, isConnecting, networkSettings, onNetworkSettingsChange, onNetworkSettingsReset }) => {
   const [joinId, setJoinId] = useState('');
+  const [displayName, setDisplayName] = useState(loadDisplayName);
+  const [password, setPassword] = useState('');
+  const [showNetwork, setShowNetwork] = useState(false);
+
+  const identity: JoinIdentity = { name: displayName, password };
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
-    const joinParam = params.get('join');
+    const joinParam = params.get('join') || params.get('watch');
     if (joinParam) {
         setJoinId(joinParam);
     }
@@ -33,8 +46,27 @@ export const Lobby: React.FC<LobbyProps> = ({ onCreate, onJoin, isConnecting })
           </div>
 
           <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+                <input
+                    type="text"
+                    placeholder="Your name"
+                    maxLength={DISPLAY_NAME_MAX_LENGTH}
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    className="bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder-zinc-600 text-sm"
+                />
+                <input
+                    type="password"
+                    placeholder="Password (optional)"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder-zinc-600 text-sm"
+                />
+            </div>
+            <p className="text-[10px] text-zinc-500 -mt-2">The password protects a new session, or unlocks the one you join. The host sees your name when you ask to join.</p>
+
             <button 
-              onClick={onCreate}
+              onClick={() => onCreate(password)}
               disabled={isConnecting}
               className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-semibold transition-all transform active:scale-95 shadow-lg shadow-indigo-900/20 flex items-center justify-center gap-2"
             >
@@ -64,18 +96,48 @@ export const Lobby: React.FC<LobbyProps> = ({ onCreate, onJoin, isConnecting })
                     className="flex-1 bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder-zinc-600 text-sm"
                 />
                 <button 
-                    onClick={() => onJoin(joinId)}
+                    onClick={() => onJoin(joinId, identity)}
                     disabled={!joinId || isConnecting}
                     className="px-6 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                     Join
                 </button>
+                <button 
+                    onClick={() => onWatch(joinId, identity)}
+                    disabled={!joinId || isConnecting}
+                    className="px-3 py-3 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Watch as Spectator"
+                >
+                    <i className="ph ph-eye text-lg"></i>
+                </button>
             </div>
           </div>
 
+          <div className="mt-6 border-t border-zinc-800 pt-4">
+            <button
+                onClick={() => setShowNetwork(!showNetwork)}
+                className="w-full flex items-center justify-between text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            >
+                <span className="flex items-center gap-1.5">
+                    <i className="ph ph-globe-simple"></i> Network Settings
+                    <span className="font-mono text-zinc-600">({networkSettings.host || 'PeerJS Cloud'})</span>
+                </span>
+                <i className={`ph ${showNetwork ? 'ph-caret-up' : 'ph-caret-down'}`}></i>
+            </button>
+            {showNetwork && (
+                <div className="mt-3">
+                    <NetworkSettingsPanel
+                        settings={networkSettings}
+                        onChange={onNetworkSettingsChange}
+                        onReset={onNetworkSettingsReset}
+                    />
+                </div>
+            )}
+          </div>
+
           <div className="mt-8 text-center">
             <p className="text-xs text-zinc-600">
-                Supported: NES • SNES • GB • GBA • Genesis • PSX
+                Supported: {PLATFORM_LIST.map(p => p.label).join(' • ')}
             </p>
           </div>
         </div>
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { NetworkSettings } from '../types';
+import { parseIceServers, formatIceServers } from '../services/networkConfig';
+
+interface NetworkSettingsPanelProps {
+  settings: NetworkSettings;
+  onChange: (settings: NetworkSettings) => void;
+  onReset: () => void;
+}
+
+export const NetworkSettingsPanel: React.FC<NetworkSettingsPanelProps> = ({ settings, onChange, onReset }) => {
+  // ICE servers are edited as free text and only parsed when the field loses focus
+  const [iceText, setIceText] = useState(formatIceServers(settings.iceServers));
+
+  useEffect(() => {
+    setIceText(formatIceServers(settings.iceServers));
+  }, [settings.iceServers]);
+
+  const update = (patch: Partial<NetworkSettings>) => onChange({ ...settings, ...patch });
+
+  const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-white text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder-zinc-600";
+
+  return (
+    <div className="space-y-3 text-left">
+        <div className="space-y-1">
+            <label className="text-[10px] text-zinc-500 uppercase tracking-wider">Signaling Host</label>
+            <input
+                type="text"
+                placeholder="PeerJS Cloud (default)"
+                value={settings.host}
+                onChange={(e) => update({ host: e.target.value.trim() })}
+                className={inputClass}
+            />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+                <label className="text-[10px] text-zinc-500 uppercase tracking-wider">Port</label>
+                <input
+                    type="number"
+                    placeholder="443"
+                    value={settings.port ?? ''}
+                    onChange={(e) => update({ port: parseInt(e.target.value, 10) || null })}
+                    disabled={!settings.host}
+                    className={`${inputClass} disabled:opacity-50`}
+                />
+            </div>
+            <div className="space-y-1">
+                <label className="text-[10px] text-zinc-500 uppercase tracking-wider">Path</label>
+                <input
+                    type="text"
+                    placeholder="/"
+                    value={settings.path}
+                    onChange={(e) => update({ path: e.target.value })}
+                    disabled={!settings.host}
+                    className={`${inputClass} disabled:opacity-50`}
+                />
+            </div>
+            <div className="space-y-1">
+                <label className="text-[10px] text-zinc-500 uppercase tracking-wider">Key</label>
+                <input
+                    type="text"
+                    placeholder="peerjs"
+                    value={settings.key}
+                    onChange={(e) => update({ key: e.target.value })}
+                    disabled={!settings.host}
+                    className={`${inputClass} disabled:opacity-50`}
+                />
+            </div>
+        </div>
+
+        <div className="flex items-center justify-between bg-zinc-950 border border-zinc-800 px-3 py-2 rounded-lg">
+            <span className="text-xs text-zinc-300">Use TLS (wss/https)</span>
+            <button
+                onClick={() => update({ secure: !settings.secure })}
+                disabled={!settings.host}
+                className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors disabled:opacity-50 ${settings.secure ? 'bg-indigo-600' : 'bg-zinc-700'}`}
+            >
+                <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${settings.secure ? 'translate-x-5' : 'translate-x-1'}`} />
+            </button>
+        </div>
+
+        <div className="space-y-1">
+            <label className="text-[10px] text-zinc-500 uppercase tracking-wider">ICE Servers (one per line: url [user pass])</label>
+            <textarea
+                rows={3}
+                placeholder={"stun:stun.example.com:3478\nturn:turn.example.com:3478 user secret"}
+                value={iceText}
+                onChange={(e) => setIceText(e.target.value)}
+                onBlur={() => update({ iceServers: parseIceServers(iceText) })}
+                className={`${inputClass} resize-none`}
+            />
+        </div>
+
+        <button
+            onClick={onReset}
+            className="text-[10px] text-zinc-500 hover:text-zinc-300 uppercase tracking-wider transition-colors"
+        >
+            Reset to defaults
+        </button>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { NetworkSample } from '../types';
+import { STATS_HISTORY_LENGTH } from '../services/statsService';
+
+export interface StatsLink {
+  id: string;
+  label: string;
+  detail?: string; // e.g. the stream quality in effect for this link
+  history: NetworkSample[];
+}
+
+interface NetworkStatsOverlayProps {
+  links: StatsLink[];
+  onClose: () => void;
+}
+
+const GRAPH_WIDTH = 180;
+const GRAPH_HEIGHT = 36;
+
+// Polyline points for one metric, scaled to the graph box; gaps (null) are skipped
+const toPoints = (values: (number | null)[], max: number): string => {
+  const step = GRAPH_WIDTH / (STATS_HISTORY_LENGTH - 1);
+  const offset = STATS_HISTORY_LENGTH - values.length;
+  return values
+    .map((v, i) => v === null ? null : `${((offset + i) * step).toFixed(1)},${(GRAPH_HEIGHT - (Math.min(v, max) / max) * GRAPH_HEIGHT).toFixed(1)}`)
+    .filter(Boolean)
+    .join(' ');
+};
+
+const fmt = (v: number | null, digits: number = 0, unit: string = '') => v === null ? '--' : `${v.toFixed(digits)}${unit}`;
+
+const Sparkline: React.FC<{ history: NetworkSample[] }> = ({ history }) => {
+  const rtts = history.map(s => s.rttMs);
+  const bitrates = history.map(s => s.bitrateKbps);
+  // Headroom so the lines don't hug the top edge
+  const maxRtt = Math.max(50, ...rtts.map(v => v ?? 0)) * 1.2;
+  const maxBitrate = Math.max(500, ...bitrates.map(v => v ?? 0)) * 1.2;
+
+  return (
+    <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="block bg-black/40 rounded">
+        <polyline points={toPoints(bitrates, maxBitrate)} fill="none" stroke="rgb(99,102,241)" strokeWidth="1.5" />
+        <polyline points={toPoints(rtts, maxRtt)} fill="none" stroke="rgb(52,211,153)" strokeWidth="1.5" />
+    </svg>
+  );
+};
+
+export const NetworkStatsOverlay: React.FC<NetworkStatsOverlayProps> = ({ links, onClose }) => {
+  return (
+    <div className="absolute top-3 left-3 z-30 bg-zinc-950/85 backdrop-blur border border-zinc-800 rounded-lg p-3 text-[10px] font-mono text-zinc-300 space-y-3 max-h-[90%] overflow-y-auto">
+        <div className="flex items-center justify-between gap-4">
+            <span className="font-bold uppercase tracking-wider text-zinc-400">Network</span>
+            <div className="flex items-center gap-2 text-zinc-500">
+                <span className="text-emerald-400">━ RTT</span>
+                <span className="text-indigo-400">━ kbps</span>
+                <button onClick={onClose} className="hover:text-white transition-colors" aria-label="Close Stats">
+                    <i className="ph ph-x"></i>
+                </button>
+            </div>
+        </div>
+
+        {links.length === 0 && <div className="text-zinc-500">No active links</div>}
+
+        {links.map(({ id, label, detail, history }) => {
+            const latest = history[history.length - 1];
+            return (
+                <div key={id} className="space-y-1.5">
+                    <div className="flex items-baseline justify-between gap-2">
+                        <span className="text-zinc-400 font-bold">{label}</span>
+                        {detail && <span className="text-zinc-500">{detail}</span>}
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+                        <span>RTT {fmt(latest?.rttMs ?? null, 0, 'ms')}</span>
+                        <span>Jitter {fmt(latest?.jitterMs ?? null, 1, 'ms')}</span>
+                        <span>Bitrate {fmt(latest?.bitrateKbps ?? null, 0, 'kbps')}</span>
+                        <span>Loss {fmt(latest?.packetLossPct ?? null, 1, '%')}</span>
+                        {latest?.framesDecoded !== null && latest?.framesDecoded !== undefined && (
+                            <>
+                                <span>Decoded {latest.framesDecoded}</span>
+                                <span>Dropped {fmt(latest.framesDropped)}</span>
+                                <span className="col-span-2">Jitter Buffer {fmt(latest.jitterBufferMs, 1, 'ms')}</span>
+                            </>
+                        )}
+                    </div>
+                    <Sparkline history={history} />
+                </div>
+            );
+        })}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { PauseReason } from '../types';
+
+interface PauseOverlayProps {
+  reason: PauseReason;
+  isHost: boolean;
+  onResume?: () => void; // Set when the host paused by hand
+}
+
+const TITLES: Record<PauseReason, { host: string; guest: string }> = {
+  host: { host: 'Paused', guest: 'Paused by Host' },
+  hidden: { host: 'Paused in Background', guest: 'Host Is Away' },
+  disconnect: { host: 'Waiting for Players', guest: 'Waiting for Players' },
+};
+
+const DETAILS: Record<PauseReason, { host: string; guest: string }> = {
+  host: { host: 'Press P to resume', guest: 'The game continues when the host resumes' },
+  hidden: { host: 'The game continues when this tab is shown again', guest: 'The host switched away from the game' },
+  disconnect: { host: 'The game continues once everyone is back', guest: 'A player dropped - the game continues once they are back' },
+};
+
+export const PauseOverlay: React.FC<PauseOverlayProps> = ({ reason, isHost, onResume }) => {
+  const side = isHost ? 'host' : 'guest';
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 rounded-lg">
+        <div className="flex flex-col items-center gap-3 text-center px-6">
+            <i className="ph-fill ph-pause-circle text-4xl text-zinc-300"></i>
+            <div>
+                <h3 className="text-sm font-bold text-white tracking-wide uppercase">{TITLES[reason][side]}</h3>
+                <p className="text-xs text-zinc-400 font-mono mt-1">{DETAILS[reason][side]}</p>
+            </div>
+            {onResume && (
+                <button
+                    onClick={onResume}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-md text-xs font-medium transition-colors"
+                >
+                    Resume
+                </button>
+            )}
+        </div>
+    </div>
+  );
+};
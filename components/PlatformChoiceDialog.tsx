@@ -0,0 +1,54 @@
+import React from 'react';
+import { Platform, PlatformDetection } from '../types';
+import { getPlatformInfo } from '../engine/platforms';
+
+interface PlatformChoiceDialogProps {
+  filename: string;
+  detection: PlatformDetection;
+  onChoose: (platform: Platform) => void;
+  onCancel: () => void;
+}
+
+const REASONS: Record<PlatformDetection['source'], string> = {
+  header: 'The file carries more than one system\'s header signature.',
+  extension: 'No header signature matched, and several systems use this file extension.',
+  fallback: 'Neither the header nor the file extension identifies the system.',
+};
+
+export const PlatformChoiceDialog: React.FC<PlatformChoiceDialogProps> = ({ filename, detection, onChoose, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+        <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl p-5 space-y-4">
+            <div className="space-y-1">
+                <h3 className="text-sm font-bold text-white">Which system is this?</h3>
+                <p className="text-xs text-zinc-400 truncate" title={filename}>{filename}</p>
+                <p className="text-xs text-zinc-500">{REASONS[detection.source]}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto">
+                {detection.candidates.map(candidate => (
+                    <button
+                        key={candidate}
+                        onClick={() => onChoose(candidate)}
+                        className={`px-3 py-2 rounded-md text-xs font-medium text-left transition-colors ${
+                            candidate === detection.platform
+                                ? 'bg-indigo-600 hover:bg-indigo-500 text-white'
+                                : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                        }`}
+                    >
+                        {getPlatformInfo(candidate).label}
+                        {candidate === detection.platform && <span className="block text-[10px] text-indigo-200">Best guess</span>}
+                    </button>
+                ))}
+            </div>
+            <div className="flex justify-end">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-medium transition-colors"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
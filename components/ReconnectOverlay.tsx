@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { ReconnectState } from '../types';
+
+interface ReconnectOverlayProps {
+  state: ReconnectState;
+  onRetry: () => void;
+  onLeave: () => void;
+}
+
+export const ReconnectOverlay: React.FC<ReconnectOverlayProps> = ({ state, onRetry, onLeave }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second so the countdown stays current
+  useEffect(() => {
+    if (state.failed) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [state.failed]);
+
+  const secondsLeft = state.nextRetryAt ? Math.max(0, Math.ceil((state.nextRetryAt - now) / 1000)) : 0;
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/70 backdrop-blur-sm rounded-lg">
+        <div className="flex flex-col items-center gap-3 text-center px-6">
+            {state.failed ? (
+                <i className="ph ph-plugs text-4xl text-red-400"></i>
+            ) : (
+                <i className="ph ph-spinner animate-spin text-4xl text-yellow-400"></i>
+            )}
+            <div>
+                <h3 className="text-sm font-bold text-white tracking-wide uppercase">
+                    {state.failed ? 'Connection Lost' : 'Reconnecting to Host'}
+                </h3>
+                <p className="text-xs text-zinc-400 font-mono mt-1">
+                    {state.failed
+                        ? `Gave up after ${state.attempt} attempts`
+                        : `Attempt ${state.attempt} of ${state.maxAttempts}${secondsLeft > 0 ? ` in ${secondsLeft}s` : '...'}`}
+                </p>
+            </div>
+            <div className="flex gap-2">
+                <button
+                    onClick={onRetry}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-md text-xs font-medium transition-colors"
+                >
+                    Retry Now
+                </button>
+                <button
+                    onClick={onLeave}
+                    className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-medium transition-colors"
+                >
+                    Leave
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
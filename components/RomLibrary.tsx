@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryEntry } from '../types';
+import { getPlatformInfo } from '../engine/platforms';
+import { StorageUsage, getStorageUsage, listLibrary, removeFromLibrary } from '../services/romLibrary';
+import { formatDate, formatPlayTime, formatSize } from './formatting';
+
+interface RomLibraryProps {
+  onLaunch: (entry: LibraryEntry) => void;
+  onClose: () => void;
+}
+
+export const RomLibrary: React.FC<RomLibraryProps> = ({ onLaunch, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listLibrary().then(setEntries).catch(e => {
+        setEntries([]);
+        setError(`Storage unavailable: ${e.message}`);
+    });
+    getStorageUsage().then(setUsage).catch(e => console.warn('Failed to estimate storage', e));
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    await removeFromLibrary(entry.id).catch(e => console.warn('Failed to delete library entry', e));
+    refresh();
+  };
+
+  const terms = query.trim().toLowerCase();
+  const shown = (entries ?? []).filter(e =>
+    !terms || e.name.toLowerCase().includes(terms) || getPlatformInfo(e.platform).label.toLowerCase().includes(terms)
+  );
+  const usedShare = usage && usage.quotaBytes > 0 ? Math.min(1, usage.usedBytes / usage.quotaBytes) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+        <div className="w-full max-w-2xl bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl p-5 space-y-4">
+            <div className="flex items-start justify-between">
+                <div className="space-y-1">
+                    <h3 className="text-sm font-bold text-white flex items-center gap-2"><i className="ph ph-books"></i> Library</h3>
+                    <p className="text-xs text-zinc-400">Games you loaded, stored in this browser. Click one to play it again.</p>
+                </div>
+                <button onClick={onClose} className="text-zinc-500 hover:text-white" aria-label="Close">
+                    <i className="ph ph-x"></i>
+                </button>
+            </div>
+
+            <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by name or system..."
+                autoFocus
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-md px-3 py-2 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+            />
+
+            <div className="max-h-[50vh] overflow-y-auto">
+                {entries === null ? (
+                    <p className="text-xs text-zinc-500 text-center py-8">Loading...</p>
+                ) : shown.length === 0 ? (
+                    <p className="text-xs text-zinc-500 text-center py-8">
+                        {error ?? (entries.length === 0 ? 'No games yet - load a ROM and it will show up here.' : 'No matching games')}
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {shown.map(entry => {
+                            const info = getPlatformInfo(entry.platform);
+                            return (
+                                <div key={entry.id} className="group relative">
+                                    <button
+                                        onClick={() => onLaunch(entry)}
+                                        className="w-full h-full flex flex-col gap-2 p-3 bg-zinc-800/50 hover:bg-zinc-800 border border-zinc-800 hover:border-indigo-500/50 rounded-md text-left transition-colors"
+                                    >
+                                        <span className={`self-start px-1.5 py-0.5 rounded border text-[9px] font-black tracking-widest ${info.activeClass}`}>{info.label}</span>
+                                        <span className="text-xs text-zinc-200 font-medium line-clamp-2 break-words" title={entry.name}>{entry.name}</span>
+                                        <span className="mt-auto text-[10px] text-zinc-500">
+                                            {formatDate(entry.lastPlayedAt)} · {formatPlayTime(entry.playTimeMs)} played
+                                        </span>
+                                        <span className="text-[10px] text-zinc-600">
+                                            {entry.discs > 1 && `${entry.discs} discs · `}{formatSize(entry.size)}
+                                        </span>
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(entry)}
+                                        className="absolute top-2 right-2 p-1 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                        title="Delete from library"
+                                    >
+                                        <i className="ph ph-trash"></i>
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {usage && usage.quotaBytes > 0 && (
+                <div className="space-y-1">
+                    <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                        <div className={`h-full ${usedShare > 0.9 ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${usedShare * 100}%` }}></div>
+                    </div>
+                    <p className="text-[10px] text-zinc-500">
+                        {formatSize(usage.usedBytes)} of {formatSize(usage.quotaBytes)} browser storage used
+                    </p>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { SaveSlot } from '../types';
+import { SLOT_COUNT } from '../services/saveSlots';
+
+interface SaveSlotsProps {
+  slots: SaveSlot[]; // Occupied slots of the running game
+  selectedSlot: number;
+  disabled: boolean; // No game running, or its hash isn't known yet
+  onSelect: (slot: number) => void;
+  onSave: (slot: number) => void;
+  onLoad: (slot: number) => void;
+  onDelete: (slot: number) => void;
+  onExport: (slot: number) => void;
+  onExportAll: () => void;
+  onImport: () => void;
+}
+
+const SLOT_NUMBERS = Array.from({ length: SLOT_COUNT }, (_, i) => i + 1);
+
+const formatSavedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Object URLs for the thumbnails, revoked when the slots change
+function useThumbnailUrls(slots: SaveSlot[]): Map<number, string> {
+  const [urls, setUrls] = useState<Map<number, string>>(new Map());
+  useEffect(() => {
+    const next = new Map<number, string>();
+    slots.forEach(s => { if (s.thumbnail) next.set(s.slot, URL.createObjectURL(s.thumbnail)); });
+    setUrls(next);
+    return () => next.forEach(url => URL.revokeObjectURL(url));
+  }, [slots]);
+  return urls;
+}
+
+export const SaveSlots: React.FC<SaveSlotsProps> = ({ slots, selectedSlot, disabled, onSelect, onSave, onLoad, onDelete, onExport, onExportAll, onImport }) => {
+  const thumbnails = useThumbnailUrls(slots);
+  const selected = slots.find(s => s.slot === selectedSlot);
+
+  return (
+    <div className="space-y-2">
+        <div className="grid grid-cols-4 gap-1.5">
+            {SLOT_NUMBERS.map(n => {
+                const slot = slots.find(s => s.slot === n);
+                const thumbnail = thumbnails.get(n);
+                return (
+                    <button
+                        key={n}
+                        onClick={() => onSelect(n)}
+                        disabled={disabled}
+                        title={slot ? `Slot ${n} - ${formatSavedAt(slot.savedAt)}` : `Slot ${n} - empty`}
+                        className={`relative aspect-[4/3] rounded overflow-hidden border text-[10px] font-mono transition-colors disabled:opacity-50 ${
+                            n === selectedSlot ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-zinc-700 hover:border-zinc-500'
+                        } ${slot ? 'bg-zinc-800' : 'bg-zinc-900 text-zinc-600'}`}
+                    >
+                        {thumbnail && <img src={thumbnail} alt="" className="absolute inset-0 w-full h-full object-cover" />}
+                        <span className="absolute top-0.5 left-1 text-white drop-shadow">{n}</span>
+                    </button>
+                );
+            })}
+        </div>
+
+        <p className="text-[10px] text-zinc-500 h-3">
+            {selected ? `Slot ${selectedSlot}: ${formatSavedAt(selected.savedAt)}` : `Slot ${selectedSlot}: empty`}
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+            <button
+                onClick={() => onSave(selectedSlot)}
+                disabled={disabled}
+                className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
+            >
+                <i className="ph ph-floppy-disk"></i> Save
+            </button>
+            <button
+                onClick={() => onLoad(selectedSlot)}
+                disabled={disabled || !selected}
+                className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm transition-colors disabled:opacity-50"
+            >
+                <i className="ph ph-upload-simple"></i> Load
+            </button>
+        </div>
+
+        <div className="flex items-center gap-1 text-[10px]">
+            <button onClick={() => onExport(selectedSlot)} disabled={disabled || !selected} className="px-2 py-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40">
+                <i className="ph ph-export"></i> Export
+            </button>
+            <button onClick={() => onDelete(selectedSlot)} disabled={disabled || !selected} className="px-2 py-1 rounded text-zinc-400 hover:text-red-400 hover:bg-zinc-800 disabled:opacity-40">
+                <i className="ph ph-trash"></i> Delete
+            </button>
+            <span className="flex-1"></span>
+            <button onClick={onExportAll} disabled={disabled || slots.length === 0} className="px-2 py-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40">
+                Export All
+            </button>
+            <button onClick={onImport} disabled={disabled} className="px-2 py-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40">
+                Import
+            </button>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { ControllerInput } from '../types';
+
+const EMPTY_INPUT: ControllerInput = { up: false, down: false, left: false, right: false, a: false, b: false, x: false, y: false, l: false, r: false, start: false, select: false };
+
+/**
+ * Frame-numbered input exchange for netplay where every peer runs the core locally.
+ * Local inputs are scheduled a few frames ahead (input delay) to hide network latency,
+ * and a frame only advances once every participating port has delivered its input for it.
+ */
+export class LockstepSession {
+  /** Identifies one lockstep run; inputs from an older run are dropped. */
+  public readonly epoch: number;
+  public readonly localPort: number;
+  public readonly ports: number[];
+
+  private frame: number = 0;
+  private nextLocalFrame: number;
+  private inputDelay: number;
+  // port -> frame -> input
+  private inputs: Map<number, Map<number, ControllerInput>> = new Map();
+
+  constructor(epoch: number, localPort: number, ports: number[], inputDelay: number = 2) {
+    this.epoch = epoch;
+    this.localPort = localPort;
+    this.ports = ports;
+    this.inputDelay = inputDelay;
+    this.nextLocalFrame = inputDelay;
+
+    // Nobody can have sent anything for the delay window yet, so seed it with neutral inputs
+    ports.forEach((port) => {
+        const frames = new Map<number, ControllerInput>();
+        for (let f = 0; f < inputDelay; f++) {
+            frames.set(f, { ...EMPTY_INPUT });
+        }
+        this.inputs.set(port, frames);
+    });
+  }
+
+  public get currentFrame(): number {
+    return this.frame;
+  }
+
+  /**
+   * Schedules the local input for the next free frame.
+   * Returns that frame number, or null when we are already a full delay window ahead.
+   */
+  public scheduleLocalInput(input: ControllerInput): number | null {
+    if (this.nextLocalFrame > this.frame + this.inputDelay) return null;
+
+    const frame = this.nextLocalFrame++;
+    this.inputs.get(this.localPort)?.set(frame, { ...input });
+    return frame;
+  }
+
+  public receiveRemoteInput(port: number, frame: number, input: ControllerInput) {
+    const frames = this.inputs.get(port);
+    if (!frames || frame < this.frame) return;
+    frames.set(frame, { ...input });
+  }
+
+  /**
+   * Returns every port's input for the current frame and moves on to the next one,
+   * or null while some port's input is still in flight.
+   */
+  public advance(): Map<number, ControllerInput> | null {
+    const frameInputs = new Map<number, ControllerInput>();
+    for (const port of this.ports) {
+        const input = this.inputs.get(port)?.get(this.frame);
+        if (!input) return null;
+        frameInputs.set(port, input);
+    }
+
+    this.inputs.forEach(frames => frames.delete(this.frame));
+    this.frame++;
+    return frameInputs;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Ring buffer of save states for rewinding, newest last.
+ * Once full, by count or by bytes, every new state pushes out the oldest one.
+ */
+export class RewindBuffer {
+  private states: (Blob | undefined)[];
+  private start: number = 0; // Index of the oldest state
+  private count: number = 0;
+  private bytes: number = 0;
+  private readonly maxBytes: number;
+
+  constructor(capacity: number, maxBytes: number) {
+    this.states = new Array(Math.max(1, capacity));
+    this.maxBytes = maxBytes;
+  }
+
+  public get length(): number {
+    return this.count;
+  }
+
+  public get byteLength(): number {
+    return this.bytes;
+  }
+
+  public push(state: Blob) {
+    if (this.count === this.states.length) this.dropOldest();
+    this.states[(this.start + this.count) % this.states.length] = state;
+    this.count++;
+    this.bytes += state.size;
+    while (this.bytes > this.maxBytes && this.count > 1) this.dropOldest();
+  }
+
+  /** Removes and returns the newest state. */
+  public pop(): Blob | undefined {
+    if (this.count === 0) return undefined;
+    const index = (this.start + this.count - 1) % this.states.length;
+    const state = this.states[index];
+    this.states[index] = undefined;
+    this.count--;
+    this.bytes -= state?.size ?? 0;
+    return state;
+  }
+
+  public clear() {
+    this.states.fill(undefined);
+    this.start = 0;
+    this.count = 0;
+    this.bytes = 0;
+  }
+
+  private dropOldest() {
+    this.bytes -= this.states[this.start]?.size ?? 0;
+    this.states[this.start] = undefined;
+    this.start = (this.start + 1) % this.states.length;
+    this.count--;
+  }
+}
@@ -1,25 +1,109 @@
-import { GameState, PlayerState, ControllerInput, Platform } from '../types';
+import { GameState, PlayerState, ControllerInput, Platform, PlaybackSpeed, RewindSettings, RomSet } from '../types';
 import { AudioService } from '../services/audioService';
+import { biosFilesFor } from '../services/biosStore';
+import { getPlatformInfo } from './platforms';
+import { RewindBuffer } from './RewindBuffer';
+
+interface KeyBinding {
+    key: string;
+    code: string;
+    keyCode: number;
+    retroarchKey: string;
+}
 
 /**
- * Key Mapping Configuration for Player 2.
- * We map P2 inputs to specific keyboard keys that don't conflict with P1 (WASD/Arrows).
+ * Key Mapping Configuration for every controller port (P1-P4).
+ * Each port gets its own block of keyboard keys that don't conflict with the local controls
+ * (WASD/Arrows) or with each other, so RetroArch can tell the players apart.
+ *
+ * The core never sees the physical keyboard: the local player's input goes through the same
+ * synthetic path as the guests', so the host can sit on any port, share one, or be moved off P1.
  */
-const P2_MAPPING: Record<string, { key: string, code: string, keyCode: number, retroarchKey: string }> = {
-    up: { key: 'i', code: 'KeyI', keyCode: 73, retroarchKey: 'i' },
-    down: { key: 'k', code: 'KeyK', keyCode: 75, retroarchKey: 'k' },
-    left: { key: 'j', code: 'KeyJ', keyCode: 74, retroarchKey: 'j' },
-    right: { key: 'l', code: 'KeyL', keyCode: 76, retroarchKey: 'l' },
-    a: { key: 'm', code: 'KeyM', keyCode: 77, retroarchKey: 'm' },      // SNES A (Right)
-    b: { key: 'n', code: 'KeyN', keyCode: 78, retroarchKey: 'n' },      // SNES B (Bottom)
-    x: { key: 'b', code: 'KeyB', keyCode: 66, retroarchKey: 'b' },      // SNES X (Top)
-    y: { key: 'v', code: 'KeyV', keyCode: 86, retroarchKey: 'v' },      // SNES Y (Left)
-    start: { key: 'p', code: 'KeyP', keyCode: 80, retroarchKey: 'p' },
-    select: { key: 'o', code: 'KeyO', keyCode: 79, retroarchKey: 'o' },
-    l: { key: '9', code: 'Digit9', keyCode: 57, retroarchKey: '9' },
-    r: { key: '0', code: 'Digit0', keyCode: 48, retroarchKey: '0' },
+const PORT_MAPPINGS: Record<number, Record<string, KeyBinding>> = {
+    1: {
+        up: { key: '[', code: 'BracketLeft', keyCode: 219, retroarchKey: 'leftbracket' },
+        down: { key: "'", code: 'Quote', keyCode: 222, retroarchKey: 'quote' },
+        left: { key: ';', code: 'Semicolon', keyCode: 186, retroarchKey: 'semicolon' },
+        right: { key: ']', code: 'BracketRight', keyCode: 221, retroarchKey: 'rightbracket' },
+        a: { key: '.', code: 'Period', keyCode: 190, retroarchKey: 'period' },
+        b: { key: ',', code: 'Comma', keyCode: 188, retroarchKey: 'comma' },
+        x: { key: '/', code: 'Slash', keyCode: 191, retroarchKey: 'slash' },
+        y: { key: '-', code: 'Minus', keyCode: 189, retroarchKey: 'minus' },
+        start: { key: '=', code: 'Equal', keyCode: 187, retroarchKey: 'equals' },
+        select: { key: '`', code: 'Backquote', keyCode: 192, retroarchKey: 'backquote' },
+        l: { key: 'Insert', code: 'Insert', keyCode: 45, retroarchKey: 'insert' },
+        r: { key: 'Delete', code: 'Delete', keyCode: 46, retroarchKey: 'del' },
+    },
+    2: {
+        up: { key: 'i', code: 'KeyI', keyCode: 73, retroarchKey: 'i' },
+        down: { key: 'k', code: 'KeyK', keyCode: 75, retroarchKey: 'k' },
+        left: { key: 'j', code: 'KeyJ', keyCode: 74, retroarchKey: 'j' },
+        right: { key: 'l', code: 'KeyL', keyCode: 76, retroarchKey: 'l' },
+        a: { key: 'm', code: 'KeyM', keyCode: 77, retroarchKey: 'm' },      // SNES A (Right)
+        b: { key: 'n', code: 'KeyN', keyCode: 78, retroarchKey: 'n' },      // SNES B (Bottom)
+        x: { key: 'b', code: 'KeyB', keyCode: 66, retroarchKey: 'b' },      // SNES X (Top)
+        y: { key: 'v', code: 'KeyV', keyCode: 86, retroarchKey: 'v' },      // SNES Y (Left)
+        start: { key: 'p', code: 'KeyP', keyCode: 80, retroarchKey: 'p' },
+        select: { key: 'o', code: 'KeyO', keyCode: 79, retroarchKey: 'o' },
+        l: { key: '9', code: 'Digit9', keyCode: 57, retroarchKey: '9' },
+        r: { key: '0', code: 'Digit0', keyCode: 48, retroarchKey: '0' },
+    },
+    3: {
+        up: { key: 't', code: 'KeyT', keyCode: 84, retroarchKey: 't' },
+        down: { key: 'g', code: 'KeyG', keyCode: 71, retroarchKey: 'g' },
+        left: { key: 'f', code: 'KeyF', keyCode: 70, retroarchKey: 'f' },
+        right: { key: 'h', code: 'KeyH', keyCode: 72, retroarchKey: 'h' },
+        a: { key: 'y', code: 'KeyY', keyCode: 89, retroarchKey: 'y' },
+        b: { key: 'r', code: 'KeyR', keyCode: 82, retroarchKey: 'r' },
+        x: { key: 'e', code: 'KeyE', keyCode: 69, retroarchKey: 'e' },
+        y: { key: 'c', code: 'KeyC', keyCode: 67, retroarchKey: 'c' },
+        start: { key: '1', code: 'Digit1', keyCode: 49, retroarchKey: '1' },
+        select: { key: '2', code: 'Digit2', keyCode: 50, retroarchKey: '2' },
+        l: { key: '3', code: 'Digit3', keyCode: 51, retroarchKey: '3' },
+        r: { key: '4', code: 'Digit4', keyCode: 52, retroarchKey: '4' },
+    },
+    4: {
+        up: { key: '8', code: 'Numpad8', keyCode: 104, retroarchKey: 'keypad8' },
+        down: { key: '2', code: 'Numpad2', keyCode: 98, retroarchKey: 'keypad2' },
+        left: { key: '4', code: 'Numpad4', keyCode: 100, retroarchKey: 'keypad4' },
+        right: { key: '6', code: 'Numpad6', keyCode: 102, retroarchKey: 'keypad6' },
+        a: { key: '3', code: 'Numpad3', keyCode: 99, retroarchKey: 'keypad3' },
+        b: { key: '1', code: 'Numpad1', keyCode: 97, retroarchKey: 'keypad1' },
+        x: { key: '9', code: 'Numpad9', keyCode: 105, retroarchKey: 'keypad9' },
+        y: { key: '7', code: 'Numpad7', keyCode: 103, retroarchKey: 'keypad7' },
+        start: { key: '+', code: 'NumpadAdd', keyCode: 107, retroarchKey: 'add' },
+        select: { key: '-', code: 'NumpadSubtract', keyCode: 109, retroarchKey: 'subtract' },
+        l: { key: '0', code: 'Numpad0', keyCode: 96, retroarchKey: 'keypad0' },
+        r: { key: '.', code: 'NumpadDecimal', keyCode: 110, retroarchKey: 'kp_period' },
+    },
 };
 
+/** Controller ports that can be handed out to remote players, in assignment order. */
+export const GUEST_PORTS = [2, 3, 4];
+
+export const CONTROLLER_PORTS = [1, ...GUEST_PORTS];
+
+const BUTTONS: (keyof ControllerInput)[] = ['up', 'down', 'left', 'right', 'a', 'b', 'x', 'y', 'start', 'select', 'l', 'r'];
+
+// RetroArch handles one command per frame; the tray needs a moment between eject, swap and close
+const DISC_COMMAND_DELAY_MS = 200;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const THUMBNAIL_WIDTH = 160;
+
+// What Nostalgist's saveState resolves to
+type SavedState = { state: Blob; thumbnail?: Blob };
+
+// Slow motion runs at half speed
+const SLOWMOTION_RATIO = 2;
+
+// Upper bound for the rewind buffer, whatever its length in seconds
+const REWIND_MEMORY_CAP_BYTES = 64 * 1024 * 1024;
+
+// Where Nostalgist puts the game files; RetroArch is told to keep .srm files next to them
+const CONTENT_DIR = '/home/web_user/retroarch/userdata/content/';
+
 /**
  * Manages the emulation lifecycle using Nostalgist.js.
  * Handles ROM loading, core switching, and input bridging.
@@ -32,6 +116,10 @@ export class VirtualConsole {
   public platform: Platform = Platform.SNES;
   public romName: string = "No Cartridge Inserted";
   public isRomLoaded: boolean = false;
+  public isLockstep: boolean = false;
+  public discCount: number = 0;
+  public fastForwardRatio: number = 2; // Fast-forward speed of the running game, fixed at launch
+  public currentDisc: number = 0; // Zero-based index into the playlist
   
   private state: GameState;
   private audio: AudioService;
@@ -42,10 +130,22 @@ export class VirtualConsole {
   private isLaunching: boolean = false;
   private isDestroyed: boolean = false;
   private wrapper: HTMLElement | null = null;
+  private saveRamPath: string | null = null;
+
+  // Nostalgist saves and loads states through one file, so state operations run one at a time
+  private stateQueue: Promise<unknown> = Promise.resolve();
+  private pendingStateOps: number = 0;
+
+  private rewindBuffer: RewindBuffer | null = null;
+  private rewindTimer: ReturnType<typeof setInterval> | null = null;
+  private rewinding: boolean = false;
+
+  private paused: boolean = false;
+  private playbackSpeed: PlaybackSpeed = 'normal';
   
   // Remote Input Handling
   public static instance: VirtualConsole | null = null;
-  private lastGuestInput: ControllerInput | null = null;
+  private lastGuestInputs: Map<number, ControllerInput> = new Map();
 
   // Simulation constants
   // Standard resolution for best latency/performance balance
@@ -85,32 +185,32 @@ export class VirtualConsole {
   }
 
   /**
-   * Updates the virtual input state for the remote player (Guest).
-   * This uses synthetic keyboard events to control Player 2.
+   * Updates the virtual input state of one controller port (P1-P4).
+   * This uses synthetic keyboard events; the input is whatever currently drives the port,
+   * already merged when several players share it.
    */
-  public updateGuestInput(input: ControllerInput) {
-      if (!this.lastGuestInput) {
-          this.lastGuestInput = this.createEmptyInput();
-      }
+  public updateGuestInput(input: ControllerInput, port: number = 2) {
+      const mapping = PORT_MAPPINGS[port];
+      if (!mapping) return;
+
+      const last = this.lastGuestInputs.get(port) || this.createEmptyInput();
 
       // Compare current input with last frame's input
       // If changed, dispatch the corresponding KeyDown or KeyUp event
-      this.handleButtonChange(input.up, this.lastGuestInput.up, P2_MAPPING.up);
-      this.handleButtonChange(input.down, this.lastGuestInput.down, P2_MAPPING.down);
-      this.handleButtonChange(input.left, this.lastGuestInput.left, P2_MAPPING.left);
-      this.handleButtonChange(input.right, this.lastGuestInput.right, P2_MAPPING.right);
-      
-      this.handleButtonChange(input.a, this.lastGuestInput.a, P2_MAPPING.a);
-      this.handleButtonChange(input.b, this.lastGuestInput.b, P2_MAPPING.b);
-      this.handleButtonChange(input.x, this.lastGuestInput.x, P2_MAPPING.x);
-      this.handleButtonChange(input.y, this.lastGuestInput.y, P2_MAPPING.y);
-      
-      this.handleButtonChange(input.start, this.lastGuestInput.start, P2_MAPPING.start);
-      this.handleButtonChange(input.select, this.lastGuestInput.select, P2_MAPPING.select);
-      this.handleButtonChange(input.l, this.lastGuestInput.l, P2_MAPPING.l);
-      this.handleButtonChange(input.r, this.lastGuestInput.r, P2_MAPPING.r);
+      BUTTONS.forEach((button) => {
+          this.handleButtonChange(input[button], last[button], mapping[button]);
+      });
 
-      this.lastGuestInput = { ...input };
+      this.lastGuestInputs.set(port, { ...input });
+  }
+
+  /**
+   * Releases every button held on a port, e.g. when its guest disconnects mid-press.
+   */
+  public releaseGuestInput(port: number) {
+      if (!this.lastGuestInputs.has(port)) return;
+      this.updateGuestInput(this.createEmptyInput(), port);
+      this.lastGuestInputs.delete(port);
   }
 
   private handleButtonChange(current: boolean | undefined, last: boolean | undefined, map: any) {
@@ -177,9 +277,12 @@ export class VirtualConsole {
   }
 
   /**
-   * Loads a real ROM file using Nostalgist.
+   * Loads a game using Nostalgist, along with any BIOS files stored for its system.
+   * The core ignores the physical keyboard and every port is bound to synthetic keys (see `updateGuestInput`).
+   * In lockstep mode those are only fed frame-synchronized inputs (see `applyInputs`).
    */
-  public async loadRom(file: File) {
+  public async loadRom(rom: RomSet, options: { lockstep?: boolean; saveRam?: Blob; fastForwardRatio?: number } = {}) {
+    const lockstep = !!options.lockstep;
     if (this.isDestroyed) {
         console.warn("Attempted to load ROM on destroyed console instance.");
         return;
@@ -197,11 +300,12 @@ export class VirtualConsole {
         
         if (this.isDestroyed) return; // Check again after await
 
-        this.romName = file.name;
+        this.romName = rom.name;
         
-        // 2. Resolve Core
-        const core = this.getCore(this.platform);
-        console.log(`Launching ${file.name} on core: ${core}`);
+        // 2. Resolve Core and BIOS
+        const core = getPlatformInfo(this.platform).core;
+        const bios = await biosFilesFor(this.platform);
+        console.log(`Launching ${rom.name} on core: ${core}` + (bios.length > 0 ? ` with ${bios.map(f => f.name).join(', ')}` : ''));
 
         if (!this.container || !this.container.isConnected) {
              throw new Error("Emulator container is missing or detached from DOM.");
@@ -231,8 +335,9 @@ export class VirtualConsole {
         canvas.style.display = 'block';
         canvas.style.width = '100%';
         canvas.style.height = '100%';
-        // Ensure canvas can take focus
-        canvas.tabIndex = 0;
+        // Local keys must not reach the core directly, so the canvas never takes focus
+        canvas.tabIndex = -1;
+        canvas.style.pointerEvents = 'none';
         
         this.wrapper.appendChild(canvas);
         this.container.appendChild(this.wrapper);
@@ -242,49 +347,38 @@ export class VirtualConsole {
              throw new Error("Canvas element failed to attach to DOM");
         }
 
-        // Build RetroArch config for P2 Mapping
-        // We use both 'input_player2_btn_x' and 'input_player2_x' for compatibility across cores/versions
+        // Build RetroArch config for every port (P1-P4)
         const retroarchConfig: Record<string, string> = {
-            // Force Player 2 to be enabled as a controller
-            input_libretro_device_p2: '1',
-            input_player2_analog_dpad_mode: '1',
-            
-            // Modern bindings
-            input_player2_btn_up: P2_MAPPING.up.retroarchKey,
-            input_player2_btn_down: P2_MAPPING.down.retroarchKey,
-            input_player2_btn_left: P2_MAPPING.left.retroarchKey,
-            input_player2_btn_right: P2_MAPPING.right.retroarchKey,
-            input_player2_btn_a: P2_MAPPING.a.retroarchKey,
-            input_player2_btn_b: P2_MAPPING.b.retroarchKey,
-            input_player2_btn_x: P2_MAPPING.x.retroarchKey,
-            input_player2_btn_y: P2_MAPPING.y.retroarchKey,
-            input_player2_btn_start: P2_MAPPING.start.retroarchKey,
-            input_player2_btn_select: P2_MAPPING.select.retroarchKey,
-            input_player2_btn_l: P2_MAPPING.l.retroarchKey,
-            input_player2_btn_r: P2_MAPPING.r.retroarchKey,
-
-            // Legacy bindings (redundancy for safety)
-            input_player2_up: P2_MAPPING.up.retroarchKey,
-            input_player2_down: P2_MAPPING.down.retroarchKey,
-            input_player2_left: P2_MAPPING.left.retroarchKey,
-            input_player2_right: P2_MAPPING.right.retroarchKey,
-            input_player2_a: P2_MAPPING.a.retroarchKey,
-            input_player2_b: P2_MAPPING.b.retroarchKey,
-            input_player2_x: P2_MAPPING.x.retroarchKey,
-            input_player2_y: P2_MAPPING.y.retroarchKey,
-            input_player2_start: P2_MAPPING.start.retroarchKey,
-            input_player2_select: P2_MAPPING.select.retroarchKey,
-            input_player2_l: P2_MAPPING.l.retroarchKey,
-            input_player2_r: P2_MAPPING.r.retroarchKey,
-            
+            ...CONTROLLER_PORTS.reduce((config, port) => ({ ...config, ...this.buildPortConfig(port) }), {}),
+
             // Ensure Keyboard driver is active and preferred
             input_driver: 'sdl2', 
+            // Gamepads are read by InputService and routed like keyboard input; the core must not bind them to P1 itself
+            input_joypad_driver: 'null',
+            // Hotkeys left on RetroArch's defaults that share a key with a port: P4 Start/Select, P2 Select
+            input_volume_up: 'nul',
+            input_volume_down: 'nul',
+            input_movie_record_toggle: 'nul',
+
+            // Battery saves go next to the game as <game>.srm
+            savefiles_in_content_dir: 'true',
+            sort_savefiles_enable: 'false',
+            sort_savefiles_by_content_enable: 'false',
+
+            // RetroArch only reads these at launch; the speed commands toggle between them and normal speed
+            fastforward_ratio: String(options.fastForwardRatio ?? this.fastForwardRatio),
+            slowmotion_ratio: String(SLOWMOTION_RATIO),
         };
 
+        // RetroArch reads the save RAM as it loads the game, so a restored one is written out with the ROM
+        const saveRamName = rom.files[0].name.replace(/\.[^.]+$/, '') + '.srm';
+        const files = options.saveRam ? [...rom.files, new File([options.saveRam], saveRamName)] : rom.files;
+
         // 3. Launch Nostalgist
         this.nostalgist = await Nostalgist.launch({
             element: `#${canvasId}`,
-            rom: file,
+            rom: files,
+            bios: bios,
             core: core,
             retroarchConfig: retroarchConfig,
             style: {
@@ -292,7 +386,7 @@ export class VirtualConsole {
                 height: '100%',
                 backgroundColor: 'transparent',
             },
-            respondToGlobalEvents: true, // Listen to keyboard inputs
+            respondToGlobalEvents: false, // Synthetic keyboard inputs only
         });
 
         if (this.isDestroyed) {
@@ -302,17 +396,23 @@ export class VirtualConsole {
         }
 
         this.isRomLoaded = true;
+        this.isLockstep = lockstep;
+        this.discCount = rom.discs;
+        this.currentDisc = 0;
+        this.saveRamPath = CONTENT_DIR + saveRamName;
+        this.fastForwardRatio = options.fastForwardRatio ?? this.fastForwardRatio;
         this.staticCanvas.style.display = 'none';
         
-        // Ensure focus is on the window/canvas so inputs register
-        window.focus();
-        canvas.focus();
+        // Nostalgist focuses the element when it isn't listening globally; undo that
+        canvas.blur();
         
-        console.log("Emulator Launched Successfully with P2 Keyboard Mapping");
+        console.log("Emulator Launched Successfully with P1-P4 Keyboard Mapping");
 
     } catch (e) {
       console.error("Failed to launch emulator:", e);
       this.isRomLoaded = false;
+      this.isLockstep = false;
+      this.discCount = 0;
       this.romName = "Error Loading ROM";
       
       await this.destroyEmulator();
@@ -324,6 +424,109 @@ export class VirtualConsole {
     }
   }
 
+  /**
+   * Applies one lockstep frame's inputs to every port.
+   * Must be called before `stepFrame` so the core sees the new key state on that frame.
+   */
+  public applyInputs(inputs: Map<number, ControllerInput>) {
+      inputs.forEach((input, port) => this.updateGuestInput(input, port));
+  }
+
+  public pause() {
+      if (!this.nostalgist || !this.isRomLoaded) return;
+      this.paused = true;
+      this.nostalgist.pause();
+  }
+
+  public resume() {
+      if (!this.nostalgist || !this.isRomLoaded) return;
+      this.paused = false;
+      if (!this.rewinding) this.nostalgist.resume();
+  }
+
+  public get isPaused(): boolean {
+      return this.paused;
+  }
+
+  public get speed(): PlaybackSpeed {
+      return this.playbackSpeed;
+  }
+
+  /** How fast the game runs at the current speed, as a multiple of normal. */
+  public get speedRate(): number {
+      if (this.playbackSpeed === 'fast') return this.fastForwardRatio;
+      return this.playbackSpeed === 'slow' ? 1 / SLOWMOTION_RATIO : 1;
+  }
+
+  /**
+   * Fast-forward (at the ratio the game was launched with), slow motion or normal speed.
+   * Not in lockstep, where frames are stepped one at a time in sync with the other peers.
+   */
+  public setSpeed(speed: PlaybackSpeed) {
+      if (!this.nostalgist || !this.isRomLoaded || this.isLockstep || speed === this.playbackSpeed) return;
+      const emulator = this.nostalgist.getEmulator();
+      // Both commands toggle, so the current mode is switched off before the next one goes on
+      if (this.playbackSpeed === 'fast') emulator.sendCommand('FAST_FORWARD');
+      if (this.playbackSpeed === 'slow') emulator.sendCommand('SLOWMOTION');
+      if (speed === 'fast') emulator.sendCommand('FAST_FORWARD');
+      if (speed === 'slow') emulator.sendCommand('SLOWMOTION');
+      this.playbackSpeed = speed;
+  }
+
+  /**
+   * Runs exactly one frame while paused (RetroArch frame advance).
+   */
+  public stepFrame() {
+      if (!this.nostalgist || !this.isRomLoaded) return;
+      this.nostalgist.getEmulator().sendCommand('FRAMEADVANCE');
+  }
+
+  /**
+   * Moves to the next disc of a multi-disc game, wrapping around after the last one:
+   * opens the tray, selects the disc and closes it again, as on the real console.
+   * Resolves with the new disc's zero-based index.
+   */
+  public async swapDisc(): Promise<number> {
+      if (!this.nostalgist || !this.isRomLoaded || this.discCount < 2) return this.currentDisc;
+      const emulator = this.nostalgist.getEmulator();
+      const next = (this.currentDisc + 1) % this.discCount;
+
+      emulator.sendCommand('DISK_EJECT_TOGGLE');
+      await delay(DISC_COMMAND_DELAY_MS);
+      // RetroArch stops at the last disc instead of wrapping
+      const steps = next > this.currentDisc ? 1 : this.currentDisc;
+      for (let i = 0; i < steps; i++) {
+          emulator.sendCommand(next > this.currentDisc ? 'DISK_NEXT' : 'DISK_PREV');
+          await delay(DISC_COMMAND_DELAY_MS);
+      }
+      emulator.sendCommand('DISK_EJECT_TOGGLE');
+
+      this.currentDisc = next;
+      return next;
+  }
+
+  /**
+   * RetroArch bindings for one guest port.
+   * We use both 'input_playerN_btn_x' and 'input_playerN_x' for compatibility across cores/versions.
+   */
+  private buildPortConfig(port: number): Record<string, string> {
+      const mapping = PORT_MAPPINGS[port];
+      const config: Record<string, string> = {
+          // Force the port to be enabled as a controller
+          [`input_libretro_device_p${port}`]: '1',
+          [`input_player${port}_analog_dpad_mode`]: '1',
+      };
+
+      BUTTONS.forEach((button) => {
+          // Modern bindings
+          config[`input_player${port}_btn_${button}`] = mapping[button].retroarchKey;
+          // Legacy bindings (redundancy for safety)
+          config[`input_player${port}_${button}`] = mapping[button].retroarchKey;
+      });
+
+      return config;
+  }
+
   public setVolume(v: number) {
      // Volume is handled globally by AudioService via AudioContext hijacking
   }
@@ -338,8 +541,10 @@ export class VirtualConsole {
 
   public async stop() {
     this.isRomLoaded = false;
+    this.isLockstep = false;
+    this.discCount = 0;
     this.romName = "No Cartridge Inserted";
-    this.lastGuestInput = null;
+    this.lastGuestInputs.clear();
     await this.destroyEmulator();
     this.render(); 
   }
@@ -347,18 +552,143 @@ export class VirtualConsole {
   public async saveState(): Promise<Blob | null> {
     if (!this.nostalgist || !this.isRomLoaded) return null;
     try {
-        const state = await this.nostalgist.saveState();
-        return state.blob;
+        // Nostalgist resolves to { state, thumbnail }
+        const { state } = await this.withStateFile<SavedState>(() => this.nostalgist.saveState());
+        return state;
+    } catch (e) {
+        console.error("Failed to save state:", e);
+        return null;
+    }
+  }
+
+  /**
+   * A save state plus a small JPEG of the current picture, for save slot listings.
+   * The picture comes from RetroArch's own screenshot, or the emulator canvas when there is none.
+   */
+  public async saveSnapshot(): Promise<{ state: Blob; thumbnail: Blob | null } | null> {
+    if (!this.nostalgist || !this.isRomLoaded) return null;
+    try {
+        const { state, thumbnail } = await this.withStateFile<SavedState>(() => this.nostalgist.saveState());
+        const canvas = this.wrapper?.querySelector('canvas') ?? null;
+        const source = thumbnail ? await createImageBitmap(thumbnail) : canvas;
+        return { state, thumbnail: source ? await this.makeThumbnail(source) : null };
     } catch (e) {
         console.error("Failed to save state:", e);
         return null;
     }
   }
 
+  /**
+   * The game's battery-backed save RAM, in RetroArch's .srm layout.
+   * RetroArch's web build flushes it to disk on request; null when the game has none (or nothing saved yet).
+   */
+  public readSaveRam(): Uint8Array | null {
+    if (!this.nostalgist || !this.isRomLoaded || !this.saveRamPath) return null;
+    try {
+        this.nostalgist.getEmscriptenModule()._cmd_savefiles?.();
+        const FS = this.nostalgist.getEmscriptenFS();
+        if (!FS.analyzePath(this.saveRamPath).exists) return null;
+        return FS.readFile(this.saveRamPath) as Uint8Array;
+    } catch (e) {
+        console.warn("Failed to read save RAM:", e);
+        return null;
+    }
+  }
+
+  private withStateFile<T>(operation: () => Promise<T>): Promise<T> {
+    this.pendingStateOps++;
+    const result = this.stateQueue.then(operation, operation);
+    this.stateQueue = result.catch(() => undefined).finally(() => { this.pendingStateOps--; });
+    return result;
+  }
+
+  /**
+   * Starts keeping a rewind state every few frames (the system's rewind interval), or stops with null or a disabled setting.
+   * Never in lockstep: every peer must stay on the same frame.
+   */
+  public setRewind(settings: RewindSettings | null) {
+    this.stopRewindCapture();
+    if (!settings?.enabled || !this.nostalgist || !this.isRomLoaded || this.isLockstep) return;
+    const { intervalMs } = getPlatformInfo(this.platform).rewind;
+    this.rewindBuffer = new RewindBuffer(Math.ceil(settings.seconds * 1000 / intervalMs), REWIND_MEMORY_CAP_BYTES);
+    this.rewindTimer = setInterval(() => this.captureRewindState(), intervalMs);
+  }
+
+  public get canRewind(): boolean {
+    return this.rewindBuffer !== null;
+  }
+
+  public get isRewinding(): boolean {
+    return this.rewinding;
+  }
+
+  private async captureRewindState() {
+    const buffer = this.rewindBuffer;
+    // Skipped rather than queued: a late state would land out of order
+    if (!buffer || this.rewinding || this.pendingStateOps > 0 || !this.nostalgist) return;
+    try {
+        const { state } = await this.withStateFile<SavedState>(() => this.nostalgist.saveState());
+        if (this.rewindBuffer === buffer && !this.rewinding) buffer.push(state);
+    } catch (e) {
+        console.warn("Failed to capture rewind state:", e);
+    }
+  }
+
+  /**
+   * Plays the buffered states backwards, one per rewind interval, until `stopRewind`.
+   * The game stays paused on the oldest state once the buffer runs out.
+   */
+  public async startRewind() {
+    if (!this.rewindBuffer || this.rewinding || this.paused || !this.nostalgist) return;
+    this.rewinding = true;
+    this.nostalgist.pause();
+    const { intervalMs } = getPlatformInfo(this.platform).rewind;
+
+    while (this.rewinding && this.nostalgist) {
+        const state = this.rewindBuffer?.pop();
+        if (!state) break;
+        try {
+            await this.withStateFile(() => this.nostalgist.loadState(state));
+            // A paused core only redraws when it runs a frame
+            this.stepFrame();
+        } catch (e) {
+            console.warn("Failed to load rewind state:", e);
+            break;
+        }
+        await delay(intervalMs);
+    }
+  }
+
+  public stopRewind() {
+    if (!this.rewinding) return;
+    this.rewinding = false;
+    // Paused meanwhile: stay on the frame rewound to
+    if (!this.paused) this.nostalgist?.resume();
+  }
+
+  private stopRewindCapture() {
+    if (this.rewindTimer) clearInterval(this.rewindTimer);
+    this.rewindTimer = null;
+    this.rewindBuffer = null;
+    this.rewinding = false;
+  }
+
+  private makeThumbnail(source: ImageBitmap | HTMLCanvasElement): Promise<Blob | null> {
+    const width = THUMBNAIL_WIDTH;
+    const height = Math.round(width / getPlatformInfo(this.platform).aspectRatio);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(source, 0, 0, width, height);
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  }
+
   public async loadState(stateBlob: Blob) {
       if (!this.nostalgist || !this.isRomLoaded) return;
       try {
-          await this.nostalgist.loadState(stateBlob);
+          await this.withStateFile(() => this.nostalgist.loadState(stateBlob));
+          // Rewinding past a loaded state would jump back into the old game
+          this.rewindBuffer?.clear();
       } catch (e) {
           console.error("Failed to load state:", e);
           throw e;
@@ -366,6 +696,9 @@ export class VirtualConsole {
   }
 
   private async destroyEmulator() {
+    this.stopRewindCapture();
+    this.paused = false;
+    this.playbackSpeed = 'normal';
     if (this.nostalgist) {
         try {
             await this.nostalgist.exit();
@@ -374,6 +707,7 @@ export class VirtualConsole {
         }
         this.nostalgist = null;
     }
+    this.saveRamPath = null;
     
     if (this.wrapper) {
         this.wrapper.remove();
@@ -390,28 +724,23 @@ export class VirtualConsole {
     }
   }
 
+  /**
+   * Video of the running game plus its audio (when the core has produced any).
+   * Both tracks share one MediaStream so WebRTC keeps them lip-synced on the receiving end.
+   */
   public captureStream(fps: number = 30): MediaStream {
       if (this.isRomLoaded && this.nostalgist && this.wrapper) {
           const emuCanvas = this.wrapper.querySelector('canvas') as HTMLCanvasElement;
           if (emuCanvas) {
-              return emuCanvas.captureStream(fps);
+              const stream = emuCanvas.captureStream(fps);
+              const audioTrack = this.audio.getGameAudioTrack();
+              if (audioTrack) stream.addTrack(audioTrack);
+              return stream;
           }
       }
       return this.staticCanvas.captureStream(fps);
   }
 
-  private getCore(p: Platform): string {
-    switch(p) {
-      case Platform.NES: return 'fceumm';
-      case Platform.SNES: return 'snes9x';
-      case Platform.GB: return 'mgba';
-      case Platform.GBA: return 'mgba';
-      case Platform.GENESIS: return 'genesis_plus_gx';
-      case Platform.PSX: return 'pcsx_rearmed';
-      default: return 'snes9x';
-    }
-  }
-
   private createPlayer(id: string, color: string, x: number, y: number): PlayerState {
     return {
       id,
@@ -508,6 +837,8 @@ export class VirtualConsole {
     this.platform = platform;
     this.romName = "No Cartridge Inserted";
     this.isRomLoaded = false;
+    this.isLockstep = false;
+    this.discCount = 0;
     
     await this.destroyEmulator();
     this.reset();
@@ -0,0 +1,137 @@
+import { Platform, PlatformDetection } from '../types';
+import { PLATFORM_LIST, platformsForFilename } from './platforms';
+
+// Enough to reach a HiROM SNES header behind a 512-byte copier header
+const SNIFF_BYTES = 0x10400;
+
+const CD_SECTOR_RAW = 2352;
+
+// Game Boy boot ROM logo at 0x104, checked by the real hardware before it runs a cartridge
+const GB_LOGO = [
+  0xCE, 0xED, 0x66, 0x66, 0xCC, 0x0D, 0x00, 0x0B, 0x03, 0x73, 0x00, 0x83, 0x00, 0x0C, 0x00, 0x0D,
+  0x00, 0x08, 0x11, 0x1F, 0x88, 0x89, 0x00, 0x0E, 0xDC, 0xCC, 0x6E, 0xE6, 0xDD, 0xDD, 0xD9, 0x99,
+  0xBB, 0xBB, 0x67, 0x63, 0x6E, 0x0E, 0xEC, 0xCC, 0xDD, 0xDC, 0x99, 0x9F, 0xBB, 0xB9, 0x33, 0x3E,
+];
+
+const ascii = (b: Uint8Array, offset: number, length: number) =>
+  offset + length > b.length ? '' : String.fromCharCode(...b.subarray(offset, offset + length));
+
+const isPrintable = (b: Uint8Array, offset: number, length: number) =>
+  offset + length <= b.length && b.subarray(offset, offset + length).every(c => c >= 0x20 && c <= 0x7E);
+
+// iNES and NES 2.0 share the magic; NES 2.0 only adds flags in byte 7
+const isNes = (b: Uint8Array) => ascii(b, 0, 4) === 'NES\x1A';
+
+/**
+ * How much the 48 bytes at `offset` look like a SNES internal header.
+ * The checksum/complement pair alone is nearly conclusive; the rest breaks ties.
+ */
+function snesHeaderScore(b: Uint8Array, offset: number): number {
+  if (offset + 0x20 > b.length) return 0;
+  let score = 0;
+  const complement = b[offset + 0x1C] | (b[offset + 0x1D] << 8);
+  const checksum = b[offset + 0x1E] | (b[offset + 0x1F] << 8);
+  if ((checksum ^ complement) === 0xFFFF) score += 2;
+  // LoROM, HiROM, SA-1, SDD-1 and ExHiROM, with or without the FastROM bit
+  if ([0x20, 0x21, 0x22, 0x23, 0x25].includes(b[offset + 0x15] & ~0x10)) score++;
+  if (b[offset + 0x17] >= 0x07 && b[offset + 0x17] <= 0x0D) score++; // ROM size, 128 KB to 8 MB
+  if (isPrintable(b, offset, 21)) score++; // Title
+  return score;
+}
+
+function isSnes(b: Uint8Array, size: number): boolean {
+  const base = size % 1024 === 512 ? 512 : 0; // Copier header
+  return Math.max(snesHeaderScore(b, base + 0x7FC0), snesHeaderScore(b, base + 0xFFC0)) >= 3;
+}
+
+/**
+ * The boot logo settles it. Without it, a Game Boy Color flag at 0x143 (0x80 dual mode, 0xC0 Color only)
+ * backed by a valid header checksum still counts, which catches homebrew that skips the logo.
+ */
+function isGameBoy(b: Uint8Array): boolean {
+  if (b.length < 0x150) return false;
+  if (GB_LOGO.every((byte, i) => b[0x104 + i] === byte)) return true;
+  if (b[0x143] !== 0x80 && b[0x143] !== 0xC0) return false;
+  let check = 0;
+  for (let i = 0x134; i <= 0x14C; i++) check = (check - b[i] - 1) & 0xFF;
+  return check === b[0x14D];
+}
+
+function isGba(b: Uint8Array): boolean {
+  if (b.length < 0xC0 || b[0xB2] !== 0x96) return false;
+  let check = 0;
+  for (let i = 0xA0; i <= 0xBC; i++) check -= b[i];
+  return ((check - 0x19) & 0xFF) === b[0xBD];
+}
+
+// "SEGA MEGA DRIVE" / "SEGA GENESIS" at 0x100, or an interleaved SMD dump with its 512-byte header
+const isGenesis = (b: Uint8Array) => ascii(b, 0x100, 16).includes('SEGA') || (b[8] === 0xAA && b[9] === 0xBB);
+
+// "TMR SEGA" header, usually at 0x7FF0; the region nibble tells Master System (3, 4) from Game Gear (5-7)
+function segaMasterHeaderRegion(b: Uint8Array): number | null {
+  for (const offset of [0x7FF0, 0x3FF0, 0x1FF0]) {
+    if (ascii(b, offset, 8) === 'TMR SEGA') return b[offset + 0xF] >> 4;
+  }
+  return null;
+}
+
+const isAtari7800 = (b: Uint8Array) => ascii(b, 1, 9) === 'ATARI7800';
+
+const isNeoGeoPocket = (b: Uint8Array) => ['COPYRIGHT BY SNK CORPORATION', ' LICENSED BY SNK CORPORATION'].includes(ascii(b, 0, 28));
+
+// ISO9660 primary volume descriptor in sector 16, for 2048-byte images and raw Mode 1 / Mode 2 tracks
+function isPlayStation(b: Uint8Array): boolean {
+  return [16 * 2048, 16 * CD_SECTOR_RAW + 16, 16 * CD_SECTOR_RAW + 24].some(pvd =>
+    ascii(b, pvd, 6) === '\x01CD001' && ascii(b, pvd + 8, 32).startsWith('PLAYSTATION')
+  );
+}
+
+/**
+ * Systems whose header signature the data carries, in registry order.
+ * `size` is the whole file's size, `b` may be just its beginning.
+ */
+export function sniffPlatforms(b: Uint8Array, size: number = b.length): Platform[] {
+  const found = new Set<Platform>();
+  if (isNes(b)) found.add(Platform.NES);
+  if (isSnes(b, size)) found.add(Platform.SNES);
+  if (isGameBoy(b)) found.add(Platform.GB);
+  if (isGba(b)) found.add(Platform.GBA);
+  if (isGenesis(b)) found.add(Platform.GENESIS);
+  if (isPlayStation(b)) found.add(Platform.PSX);
+  const region = segaMasterHeaderRegion(b);
+  if (region !== null) found.add(region >= 5 ? Platform.GAME_GEAR : Platform.SMS);
+  if (isAtari7800(b)) found.add(Platform.ATARI_7800);
+  if (isNeoGeoPocket(b)) found.add(Platform.NGP);
+  return PLATFORM_LIST.map(p => p.id).filter(id => found.has(id));
+}
+
+// Systems sharing an extension, most likely first judging by the file size
+function rankByExtension(filename: string, size: number): Platform[] {
+  const candidates = platformsForFilename(filename);
+  const likely = (platform: Platform) => {
+    switch (platform) {
+      case Platform.ATARI_2600: return size <= 64 * 1024;
+      case Platform.PSX: return size % CD_SECTOR_RAW === 0 && size > 4 * 1024 * 1024;
+      default: return false;
+    }
+  };
+  return [...candidates.filter(likely), ...candidates.filter(p => !likely(p))];
+}
+
+/**
+ * Identifies a ROM's system from its header, falling back to the extension only when no signature matches.
+ * Anything with more than one candidate is for the user to settle.
+ */
+export async function detectPlatform(file: File): Promise<PlatformDetection> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+
+  const sniffed = sniffPlatforms(bytes, file.size);
+  if (sniffed.length > 0) return { platform: sniffed[0], candidates: sniffed, source: 'header' };
+
+  const byExtension = rankByExtension(file.name, file.size);
+  if (byExtension.length > 0) return { platform: byExtension[0], candidates: byExtension, source: 'extension' };
+
+  // Unknown file: every system is possible, SNES first as before
+  const all = PLATFORM_LIST.map(p => p.id);
+  return { platform: Platform.SNES, candidates: [Platform.SNES, ...all.filter(p => p !== Platform.SNES)], source: 'fallback' };
+}
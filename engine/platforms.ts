@@ -0,0 +1,193 @@
+import { ControllerInput, Platform, PlatformInfo } from '../types';
+
+const SNES_BUTTONS: (keyof ControllerInput)[] = ['a', 'b', 'x', 'y', 'l', 'r', 'start', 'select'];
+
+/**
+ * The supported systems, in the order the UI lists them.
+ * Extension lookups go through this order too, so a shared extension (e.g. `.bin`) belongs to the first system listing it.
+ */
+export const PLATFORM_LIST: PlatformInfo[] = [
+  {
+    id: Platform.NES,
+    label: 'NES',
+    core: 'fceumm',
+    extensions: ['nes'],
+    buttons: ['a', 'b', 'start', 'select'],
+    frameRate: 60.0988,
+    aspectRatio: 4 / 3,
+    bios: [],
+    rewind: { enabled: true, seconds: 20, intervalMs: 50 },
+    activeClass: 'bg-red-500/10 border-red-500/50 text-red-200 shadow-[0_0_15px_-3px_rgba(239,68,68,0.3)]',
+  },
+  {
+    id: Platform.SNES,
+    label: 'SNES',
+    core: 'snes9x',
+    extensions: ['sfc', 'smc'],
+    buttons: SNES_BUTTONS,
+    frameRate: 60.0988,
+    aspectRatio: 4 / 3,
+    bios: [],
+    rewind: { enabled: true, seconds: 15, intervalMs: 100 },
+    activeClass: 'bg-indigo-500/10 border-indigo-500/50 text-indigo-200 shadow-[0_0_15px_-3px_rgba(99,102,241,0.3)]',
+  },
+  {
+    id: Platform.GB,
+    label: 'GAME BOY',
+    core: 'mgba',
+    extensions: ['gb', 'gbc'],
+    buttons: ['a', 'b', 'start', 'select'],
+    frameRate: 59.7275,
+    aspectRatio: 10 / 9,
+    bios: [],
+    rewind: { enabled: true, seconds: 20, intervalMs: 50 },
+    activeClass: 'bg-emerald-500/10 border-emerald-500/50 text-emerald-200 shadow-[0_0_15px_-3px_rgba(16,185,129,0.3)]',
+  },
+  {
+    id: Platform.GBA,
+    label: 'GBA',
+    core: 'mgba',
+    extensions: ['gba'],
+    buttons: ['a', 'b', 'l', 'r', 'start', 'select'],
+    frameRate: 59.7275,
+    aspectRatio: 3 / 2,
+    bios: [{ file: 'gba_bios.bin', description: 'Game Boy Advance BIOS', required: false, crc32: '81977335' }],
+    rewind: { enabled: true, seconds: 10, intervalMs: 100 },
+    activeClass: 'bg-purple-500/10 border-purple-500/50 text-purple-200 shadow-[0_0_15px_-3px_rgba(168,85,247,0.3)]',
+  },
+  {
+    id: Platform.GENESIS,
+    label: 'GENESIS',
+    core: 'genesis_plus_gx',
+    extensions: ['md', 'gen', 'smd', 'bin'],
+    // RetroPad Y/B/A are the Genesis A/B/C; X/L/R are the extra 6-button row, Select is Mode
+    buttons: SNES_BUTTONS,
+    frameRate: 59.9227,
+    aspectRatio: 4 / 3,
+    bios: [],
+    rewind: { enabled: true, seconds: 15, intervalMs: 100 },
+    activeClass: 'bg-amber-500/10 border-amber-500/50 text-amber-200 shadow-[0_0_15px_-3px_rgba(245,158,11,0.3)]',
+  },
+  {
+    id: Platform.PSX,
+    label: 'PSX',
+    core: 'pcsx_rearmed',
+    extensions: ['cue', 'm3u', 'iso', 'img', 'pbp', 'bin'],
+    buttons: SNES_BUTTONS,
+    frameRate: 59.94,
+    aspectRatio: 4 / 3,
+    bios: [
+        { file: 'scph5501.bin', description: 'PlayStation BIOS (USA)', required: false, crc32: '8d8cb7e4' },
+        { file: 'scph5500.bin', description: 'PlayStation BIOS (Japan)', required: false, crc32: 'ff3eeb8c' },
+        { file: 'scph5502.bin', description: 'PlayStation BIOS (Europe)', required: false, crc32: 'd786f0b9' },
+    ],
+    // States run to megabytes, so fewer are kept and rewind starts out off
+    rewind: { enabled: false, seconds: 5, intervalMs: 500 },
+    activeClass: 'bg-blue-500/10 border-blue-500/50 text-blue-200 shadow-[0_0_15px_-3px_rgba(59,130,246,0.3)]',
+  },
+  {
+    id: Platform.SMS,
+    label: 'MASTER SYSTEM',
+    core: 'genesis_plus_gx',
+    extensions: ['sms'],
+    // Buttons 1 and 2; Start is the console's Pause button
+    buttons: ['b', 'a', 'start'],
+    frameRate: 59.9227,
+    aspectRatio: 4 / 3,
+    bios: [],
+    rewind: { enabled: true, seconds: 20, intervalMs: 50 },
+    activeClass: 'bg-sky-500/10 border-sky-500/50 text-sky-200 shadow-[0_0_15px_-3px_rgba(14,165,233,0.3)]',
+  },
+  {
+    id: Platform.GAME_GEAR,
+    label: 'GAME GEAR',
+    core: 'genesis_plus_gx',
+    extensions: ['gg'],
+    buttons: ['b', 'a', 'start'],
+    frameRate: 59.9227,
+    aspectRatio: 10 / 9,
+    bios: [],
+    rewind: { enabled: true, seconds: 20, intervalMs: 50 },
+    activeClass: 'bg-slate-500/10 border-slate-500/50 text-slate-200 shadow-[0_0_15px_-3px_rgba(100,116,139,0.3)]',
+  },
+  {
+    id: Platform.PCE,
+    label: 'PC ENGINE',
+    core: 'mednafen_pce_fast',
+    extensions: ['pce'],
+    // Buttons I and II, Run and Select
+    buttons: ['a', 'b', 'start', 'select'],
+    frameRate: 59.826,
+    aspectRatio: 4 / 3,
+    bios: [],
+    rewind: { enabled: true, seconds: 15, intervalMs: 100 },
+    activeClass: 'bg-orange-500/10 border-orange-500/50 text-orange-200 shadow-[0_0_15px_-3px_rgba(249,115,22,0.3)]',
+  },
+  {
+    id: Platform.ATARI_2600,
+    label: 'ATARI 2600',
+    core: 'stella2014',
+    extensions: ['a26', 'bin'],
+    // The joystick's single fire button; Start and Select are the console's Reset and Select switches
+    buttons: ['b', 'start', 'select'],
+    frameRate: 59.92,
+    aspectRatio: 4 / 3,
+    bios: [],
+    rewind: { enabled: true, seconds: 20, intervalMs: 50 },
+    activeClass: 'bg-yellow-500/10 border-yellow-500/50 text-yellow-200 shadow-[0_0_15px_-3px_rgba(234,179,8,0.3)]',
+  },
+  {
+    id: Platform.ATARI_7800,
+    label: 'ATARI 7800',
+    core: 'prosystem',
+    extensions: ['a78'],
+    buttons: ['b', 'a', 'start', 'select'],
+    frameRate: 59.92,
+    aspectRatio: 4 / 3,
+    bios: [{ file: '7800 BIOS (U).rom', description: 'Atari 7800 BIOS, plays the boot animation', required: false, crc32: '5d13730c' }],
+    rewind: { enabled: true, seconds: 20, intervalMs: 50 },
+    activeClass: 'bg-rose-500/10 border-rose-500/50 text-rose-200 shadow-[0_0_15px_-3px_rgba(244,63,94,0.3)]',
+  },
+  {
+    id: Platform.NGP,
+    label: 'NEO GEO POCKET',
+    core: 'mednafen_ngp',
+    extensions: ['ngp', 'ngc'],
+    // A, B and Option
+    buttons: ['a', 'b', 'start'],
+    frameRate: 60.2536,
+    aspectRatio: 20 / 19,
+    bios: [],
+    rewind: { enabled: true, seconds: 15, intervalMs: 100 },
+    activeClass: 'bg-teal-500/10 border-teal-500/50 text-teal-200 shadow-[0_0_15px_-3px_rgba(20,184,166,0.3)]',
+  },
+  {
+    id: Platform.WONDERSWAN,
+    label: 'WONDERSWAN',
+    core: 'mednafen_wswan',
+    extensions: ['ws', 'wsc'],
+    buttons: ['a', 'b', 'start'],
+    frameRate: 75.4713,
+    aspectRatio: 14 / 9,
+    bios: [],
+    rewind: { enabled: true, seconds: 15, intervalMs: 100 },
+    activeClass: 'bg-fuchsia-500/10 border-fuchsia-500/50 text-fuchsia-200 shadow-[0_0_15px_-3px_rgba(217,70,239,0.3)]',
+  },
+];
+
+export const PLATFORMS: Record<Platform, PlatformInfo> = Object.fromEntries(
+  PLATFORM_LIST.map(info => [info.id, info])
+) as Record<Platform, PlatformInfo>;
+
+/** Every ROM extension any system accepts, in `<input accept>` form. */
+export const ALL_ROM_EXTENSIONS = Array.from(new Set(PLATFORM_LIST.flatMap(p => p.extensions))).map(ext => `.${ext}`).join(',');
+
+export function getPlatformInfo(platform: Platform): PlatformInfo {
+  return PLATFORMS[platform];
+}
+
+/** Every system listing the file's extension, in registry order; empty for an unknown one. */
+export function platformsForFilename(filename: string): Platform[] {
+  const ext = filename.split('.').pop()?.toLowerCase() ?? '';
+  return PLATFORM_LIST.filter(p => p.extensions.includes(ext)).map(p => p.id);
+}
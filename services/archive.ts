@@ -0,0 +1,52 @@
+import type { SevenZipModule } from '7z-wasm';
+import sevenZipWasmUrl from '7z-wasm/7zz.wasm?url';
+import { PLATFORM_LIST } from '../engine/platforms';
+
+export const ARCHIVE_EXTENSIONS = ['zip', '7z'];
+
+/** Archive extensions in `<input accept>` form. */
+export const ARCHIVE_ACCEPT = ARCHIVE_EXTENSIONS.map(ext => `.${ext}`).join(',');
+
+const ROM_EXTENSIONS = new Set(PLATFORM_LIST.flatMap(p => p.extensions));
+
+const ARCHIVE_PATH = '/archive';
+const OUTPUT_DIR = '/out';
+
+const extensionOf = (filename: string) => filename.split('.').pop()?.toLowerCase() ?? '';
+
+export const isArchive = (filename: string) => ARCHIVE_EXTENSIONS.includes(extensionOf(filename));
+
+// Every regular file below `dir`, skipping the resource forks macOS adds to zips
+function listFiles(sevenZip: SevenZipModule, dir: string): string[] {
+  return sevenZip.FS.readdir(dir)
+    .filter(name => name !== '.' && name !== '..' && name !== '__MACOSX')
+    .flatMap(name => {
+      const path = `${dir}/${name}`;
+      return sevenZip.FS.isDir(sevenZip.FS.stat(path).mode) ? listFiles(sevenZip, path) : [path];
+    });
+}
+
+/**
+ * Unpacks a ZIP or 7z archive in the browser and returns the ROMs inside it, in archive order.
+ * Files no system accepts (readmes, box art) are left out. The 7-Zip module is only fetched on first use.
+ */
+export async function extractRoms(archive: File): Promise<File[]> {
+  const { default: SevenZip } = await import('7z-wasm');
+  const errors: string[] = [];
+  // A fresh instance per archive: callMain isn't meant to be run twice on one module
+  const sevenZip = await SevenZip({
+    locateFile: () => sevenZipWasmUrl,
+    print: () => {},
+    printErr: (line) => errors.push(line),
+  });
+
+  sevenZip.FS.writeFile(ARCHIVE_PATH, new Uint8Array(await archive.arrayBuffer()));
+  sevenZip.FS.mkdir(OUTPUT_DIR);
+  sevenZip.callMain(['x', ARCHIVE_PATH, `-o${OUTPUT_DIR}`, '-y', '-bd']);
+
+  const roms = listFiles(sevenZip, OUTPUT_DIR).filter(path => ROM_EXTENSIONS.has(extensionOf(path)));
+  if (roms.length === 0 && errors.length > 0) {
+    throw new Error(`Could not extract ${archive.name}: ${errors.join(' ').trim()}`);
+  }
+  return roms.map(path => new File([sevenZip.FS.readFile(path) as Uint8Array<ArrayBuffer>], path.split('/').pop() ?? path));
+}
@@ -1,9 +1,14 @@
 export class AudioService {
   private static instance: AudioService | null = null;
   private masterVolume: number = 0.5;
+  private voiceVolume: number = 1;
   private contexts: Set<AudioContext> = new Set();
   private gainNodes: Map<AudioContext, GainNode> = new Map();
+  private realDestinations: Map<AudioContext, AudioDestinationNode> = new Map();
+  private taps: Map<AudioContext, GainNode> = new Map(); // Pre-volume mix of each context, for streaming
+  private captures: Map<AudioContext, MediaStreamAudioDestinationNode> = new Map();
   private internalCtx: AudioContext | null = null;
+  private voiceGain: GainNode | null = null;
 
   constructor() {
     if (AudioService.instance) {
@@ -67,15 +72,21 @@ export class AudioService {
         
         // Connect the gain node to the real destination
         gainNode.connect(ctx.destination);
+        this.realDestinations.set(ctx, ctx.destination);
 
         // Store reference so we can update volume later
         this.gainNodes.set(ctx, gainNode);
 
+        // Unity-gain tap in front of the volume, so streamed audio doesn't follow the host's slider
+        const tap = ctx.createGain();
+        tap.connect(gainNode);
+        this.taps.set(ctx, tap);
+
         // Intercept the 'destination' property on the instance.
-        // We force any code asking for 'ctx.destination' to get our gainNode instead.
+        // We force any code asking for 'ctx.destination' to get our tap instead.
         // This effectively routes all emulator audio through our gain node.
         Object.defineProperty(ctx, 'destination', {
-            get: () => gainNode,
+            get: () => tap,
             configurable: true 
         });
         
@@ -112,6 +123,46 @@ export class AudioService {
     });
   }
 
+  /**
+   * Live audio track of the game, taken from the newest emulator AudioContext before the master volume.
+   * UI tones and voice chat live in the internal context and are never included.
+   * Returns null while no emulator has created a context yet.
+   */
+  public getGameAudioTrack(): MediaStreamTrack | null {
+    const ctx = Array.from(this.taps.keys()).reverse().find(c => c !== this.internalCtx && c.state !== 'closed');
+    if (!ctx) return null;
+
+    let capture = this.captures.get(ctx);
+    if (!capture) {
+        capture = ctx.createMediaStreamDestination();
+        this.taps.get(ctx)!.connect(capture);
+        this.captures.set(ctx, capture);
+    }
+    return capture.stream.getAudioTracks()[0] ?? null;
+  }
+
+  /**
+   * Output for voice chat, in the internal context but bypassing the master (game) volume.
+   * Created on first use; null when Web Audio is unavailable.
+   */
+  public getVoiceOutput(): GainNode | null {
+    if (this.voiceGain || !this.internalCtx) return this.voiceGain;
+    const destination = this.realDestinations.get(this.internalCtx);
+    if (!destination) return null;
+
+    this.voiceGain = this.internalCtx.createGain();
+    this.voiceGain.gain.value = this.voiceVolume;
+    this.voiceGain.connect(destination);
+    return this.voiceGain;
+  }
+
+  public setVoiceVolume(val: number) {
+    this.voiceVolume = Math.max(0, Math.min(1, val));
+    if (this.voiceGain) {
+        this.voiceGain.gain.value = this.voiceVolume;
+    }
+  }
+
   public playTone(freq: number, type: OscillatorType = 'square', duration: number = 0.1) {
     if (!this.internalCtx) return;
     
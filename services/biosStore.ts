@@ -0,0 +1,53 @@
+import { Platform, StoredBios, BiosRequirement } from '../types';
+import { PLATFORM_LIST } from '../engine/platforms';
+import { crc32 } from './romHash';
+import { STORES, runRequest } from './database';
+
+// Every BIOS the registry knows, with the system it belongs to
+const KNOWN_BIOS: { platform: Platform; requirement: BiosRequirement }[] = PLATFORM_LIST.flatMap(p =>
+  p.bios.map(requirement => ({ platform: p.id, requirement }))
+);
+
+/**
+ * Checks a file against the known BIOS dumps and stores it under the name its core expects.
+ * Identified by hash alone, so `SCPH-5501.BIN` or `bios.bin` work as well as the canonical name.
+ * Throws when the file isn't a known good dump.
+ */
+export async function addBios(file: File): Promise<StoredBios> {
+  const hash = crc32(new Uint8Array(await file.arrayBuffer()));
+  const known = KNOWN_BIOS.find(k => k.requirement.crc32 === hash);
+  if (!known) {
+    throw new Error(`${file.name} is not a known BIOS dump (CRC32 ${hash})`);
+  }
+  const bios: StoredBios = {
+    file: known.requirement.file,
+    platform: known.platform,
+    crc32: hash,
+    size: file.size,
+    addedAt: Date.now(),
+    data: file,
+  };
+  await runRequest(STORES.BIOS, 'readwrite', store => store.put(bios));
+  return bios;
+}
+
+export async function removeBios(file: string): Promise<void> {
+  await runRequest(STORES.BIOS, 'readwrite', store => store.delete(file));
+}
+
+export async function listBios(): Promise<StoredBios[]> {
+  return runRequest(STORES.BIOS, 'readonly', store => store.getAll() as IDBRequest<StoredBios[]>);
+}
+
+/**
+ * The stored BIOS files for one system, ready to hand to the core. Empty when storage is unavailable.
+ */
+export async function biosFilesFor(platform: Platform): Promise<File[]> {
+  try {
+    const stored = await listBios();
+    return stored.filter(b => b.platform === platform).map(b => new File([b.data], b.file));
+  } catch (e) {
+    console.warn('Failed to read stored BIOS files', e);
+    return [];
+  }
+}
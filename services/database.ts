@@ -0,0 +1,68 @@
+/**
+ * The app's IndexedDB database. Each object store is created on first open;
+ * adding one means adding it to STORES and KEY_PATHS and bumping DB_VERSION.
+ */
+
+const DB_NAME = 'retrolink';
+const DB_VERSION = 4;
+
+export const STORES = {
+  BIOS: 'bios', // StoredBios, keyed by file name
+  LIBRARY: 'library', // LibraryEntry, keyed by ROM hash
+  SAVE_SLOTS: 'saveSlots', // SaveSlot, keyed by ROM hash and slot number
+  SAVE_RAM: 'saveRam', // StoredSaveRam, keyed by ROM hash
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+const KEY_PATHS: Record<StoreName, string> = {
+  bios: 'file',
+  library: 'id',
+  saveSlots: 'key',
+  saveRam: 'romId',
+};
+
+// Secondary lookups, created together with their store
+const INDEXES: Partial<Record<StoreName, string[]>> = {
+  saveSlots: ['romId'],
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      (Object.keys(KEY_PATHS) as StoreName[]).forEach(name => {
+        if (db.objectStoreNames.contains(name)) return;
+        const store = db.createObjectStore(name, { keyPath: KEY_PATHS[name] });
+        INDEXES[name]?.forEach(index => store.createIndex(index, index));
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call try again, e.g. after the user allows storage
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+/**
+ * Runs one request against a store and resolves with its result once the transaction commits.
+ */
+export async function runRequest<T>(store: StoreName, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = makeRequest(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
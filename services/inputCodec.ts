@@ -0,0 +1,60 @@
+import { ControllerInput } from '../types';
+import { ProtocolError } from './protocol';
+
+/**
+ * Compact binary form of one ControllerInput sample, used on the unreliable input channel.
+ *
+ * Layout (little-endian, 15 bytes):
+ *   u8  tag       PACKET_TAG
+ *   u16 buttons   one bit per entry in BUTTON_ORDER
+ *   u32 seq       increases with every packet; receivers drop anything not newer than the last
+ *   f64 timestamp sender's Date.now() when the sample was taken
+ */
+export const INPUT_PACKET_SIZE = 15;
+
+const PACKET_TAG = 0x49; // 'I'
+
+const BUTTON_ORDER: (keyof ControllerInput)[] = ['up', 'down', 'left', 'right', 'a', 'b', 'x', 'y', 'start', 'select', 'l', 'r'];
+
+export interface InputPacket {
+  input: ControllerInput;
+  seq: number;
+  timestamp: number;
+}
+
+export function inputToMask(input: ControllerInput): number {
+  return BUTTON_ORDER.reduce((mask, button, bit) => input[button] ? mask | (1 << bit) : mask, 0);
+}
+
+export function maskToInput(mask: number): ControllerInput {
+  const input = {} as ControllerInput;
+  BUTTON_ORDER.forEach((button, bit) => {
+      input[button] = (mask & (1 << bit)) !== 0;
+  });
+  return input;
+}
+
+export function encodeInputPacket(input: ControllerInput, seq: number, timestamp: number = Date.now()): ArrayBuffer {
+  const buffer = new ArrayBuffer(INPUT_PACKET_SIZE);
+  const view = new DataView(buffer);
+  view.setUint8(0, PACKET_TAG);
+  view.setUint16(1, inputToMask(input), true);
+  view.setUint32(3, seq >>> 0, true);
+  view.setFloat64(7, timestamp, true);
+  return buffer;
+}
+
+export function decodeInputPacket(data: unknown): InputPacket {
+  if (!(data instanceof ArrayBuffer) || data.byteLength !== INPUT_PACKET_SIZE) {
+    throw new ProtocolError('Malformed input packet');
+  }
+  const view = new DataView(data);
+  if (view.getUint8(0) !== PACKET_TAG) {
+    throw new ProtocolError('Malformed input packet: bad tag');
+  }
+  return {
+    input: maskToInput(view.getUint16(1, true)),
+    seq: view.getUint32(3, true),
+    timestamp: view.getFloat64(7, true),
+  };
+}
@@ -1,15 +1,78 @@
 import { ControllerInput } from '../types';
 
+interface Hotkey {
+  handler: () => void;
+  onRelease?: () => void;
+  whileBlocked: boolean;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 export class InputService {
   private static instance: InputService;
   
   private keysPressed: Set<string> = new Set();
+  private hotkeys: Map<string, Hotkey> = new Map(); // Keyed by KeyboardEvent.code
+  private keyboardBlocked: boolean = false;
   
   private constructor() {
     if (typeof window !== 'undefined') {
-        window.addEventListener('keydown', (e) => this.keysPressed.add(e.code));
-        window.addEventListener('keyup', (e) => this.keysPressed.delete(e.code));
+        // Capture phase on window runs before any listener the emulator core registers,
+        // so hotkeys and blocked keystrokes never reach it
+        window.addEventListener('keydown', this.interceptKey, true);
+        window.addEventListener('keyup', this.interceptKey, true);
+        window.addEventListener('keypress', this.interceptKey, true);
+
+        window.addEventListener('keydown', (e) => { if (e.isTrusted) this.keysPressed.add(e.code); });
+        window.addEventListener('keyup', (e) => { if (e.isTrusted) this.keysPressed.delete(e.code); });
+    }
+  }
+
+  private interceptKey = (e: KeyboardEvent) => {
+    // Synthetic events are VirtualConsole driving the controller ports and must reach the core untouched
+    if (!e.isTrusted) return;
+    const hotkey = this.hotkeys.get(e.code);
+    // Releases always get through, so a held key can't stick when blocking starts mid-press
+    if (e.type === 'keyup' && hotkey?.onRelease) {
+        e.stopImmediatePropagation();
+        hotkey.onRelease();
+        return;
+    }
+    if (e.type === 'keydown' && hotkey && (this.keyboardBlocked ? hotkey.whileBlocked : !isEditableTarget(e.target))) {
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        if (!e.repeat) hotkey.handler();
+        return;
     }
+
+    if (this.keyboardBlocked) {
+        // Stop propagation only: the focused text field still gets the keystroke's default action
+        e.stopImmediatePropagation();
+    }
+  };
+
+  /**
+   * Binds a key (KeyboardEvent.code) to an action. The key is swallowed instead of reaching the game.
+   * Hotkeys are ignored while typing in a text field, and while the keyboard is blocked unless whileBlocked is set.
+   * onRelease makes it a hold key (e.g. push-to-talk).
+   * Returns a function that removes the binding.
+   */
+  public registerHotkey(code: string, handler: () => void, options: { whileBlocked?: boolean; onRelease?: () => void } = {}): () => void {
+    const hotkey: Hotkey = { handler, onRelease: options.onRelease, whileBlocked: options.whileBlocked ?? false };
+    this.hotkeys.set(code, hotkey);
+    return () => {
+        if (this.hotkeys.get(code) === hotkey) this.hotkeys.delete(code);
+    };
+  }
+
+  /**
+   * While blocked (e.g. the chat box is open), keystrokes reach neither this service nor the emulator.
+   */
+  public setKeyboardBlocked(blocked: boolean) {
+    this.keyboardBlocked = blocked;
+    // Keys held when blocking started would otherwise never see their keyup
+    if (blocked) this.keysPressed.clear();
   }
 
   public static getInstance(): InputService {
@@ -44,7 +107,7 @@ export class InputService {
     result.y = this.keysPressed.has('KeyU');
     
     result.l = this.keysPressed.has('KeyQ');
-    result.r = this.keysPressed.has('KeyW'); 
+    result.r = this.keysPressed.has('KeyE'); // W is already Up
     
     result.start = this.keysPressed.has('Enter');
     result.select = this.keysPressed.has('ShiftLeft') || this.keysPressed.has('ShiftRight');
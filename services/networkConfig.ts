@@ -0,0 +1,147 @@
+import type { PeerOptions } from 'peerjs';
+import { NetworkSettings } from '../types';
+
+const STORAGE_KEY = 'retrolink.network';
+
+export const DEFAULT_NETWORK_SETTINGS: NetworkSettings = {
+  host: '',
+  port: null,
+  path: '/',
+  key: 'peerjs',
+  secure: true,
+  iceServers: [],
+};
+
+/**
+ * Parses ICE servers from either a JSON array of RTCIceServer objects
+ * or one server per line in the form `url [username credential]`.
+ */
+export function parseIceServers(text: string): RTCIceServer[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return Array.isArray(parsed) ? parsed.filter(s => s && (typeof s.urls === 'string' || Array.isArray(s.urls))) : [];
+    } catch (e) {
+      console.warn("Invalid ICE server JSON", e);
+      return [];
+    }
+  }
+
+  return trimmed.split(/[\n,]+/).map(line => line.trim()).filter(Boolean).map((line) => {
+    const [urls, username, credential] = line.split(/\s+/);
+    return username ? { urls, username, credential } : { urls };
+  });
+}
+
+export function formatIceServers(servers: RTCIceServer[]): string {
+  return servers.map((s) => {
+    const urls = Array.isArray(s.urls) ? s.urls.join(',') : s.urls;
+    return s.username ? `${urls} ${s.username} ${s.credential ?? ''}`.trim() : urls;
+  }).join('\n');
+}
+
+// Only the fields that are actually set, so later sources override earlier ones field by field
+type PartialSettings = Partial<NetworkSettings>;
+
+function fromBuildConfig(): PartialSettings {
+  const env = import.meta.env || {};
+  const result: PartialSettings = {};
+  if (env.VITE_PEER_HOST) result.host = env.VITE_PEER_HOST;
+  if (env.VITE_PEER_PORT) result.port = parseInt(env.VITE_PEER_PORT, 10) || null;
+  if (env.VITE_PEER_PATH) result.path = env.VITE_PEER_PATH;
+  if (env.VITE_PEER_KEY) result.key = env.VITE_PEER_KEY;
+  if (env.VITE_PEER_SECURE) result.secure = env.VITE_PEER_SECURE !== 'false';
+  if (env.VITE_ICE_SERVERS) result.iceServers = parseIceServers(env.VITE_ICE_SERVERS);
+  return result;
+}
+
+function fromStorage(): PartialSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn("Failed to read stored network settings", e);
+    return {};
+  }
+}
+
+/**
+ * URL presets, e.g. `?peerHost=localhost&peerPort=9000&peerSecure=false&ice=turn:turn.local:3478 user pass`
+ */
+function fromUrl(): PartialSettings {
+  if (typeof window === 'undefined') return {};
+  const params = new URLSearchParams(window.location.search);
+  const result: PartialSettings = {};
+  const host = params.get('peerHost');
+  const port = params.get('peerPort');
+  const path = params.get('peerPath');
+  const key = params.get('peerKey');
+  const secure = params.get('peerSecure');
+  const ice = params.get('ice');
+  if (host !== null) result.host = host;
+  if (port !== null) result.port = parseInt(port, 10) || null;
+  if (path !== null) result.path = path;
+  if (key !== null) result.key = key;
+  if (secure !== null) result.secure = secure !== 'false';
+  if (ice !== null) result.iceServers = parseIceServers(ice);
+  return result;
+}
+
+/**
+ * Resolves the effective settings. Precedence: URL > saved settings > build-time config > defaults.
+ */
+export function loadNetworkSettings(): NetworkSettings {
+  return { ...DEFAULT_NETWORK_SETTINGS, ...fromBuildConfig(), ...fromStorage(), ...fromUrl() };
+}
+
+export function saveNetworkSettings(settings: NetworkSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Failed to store network settings", e);
+  }
+}
+
+export function clearNetworkSettings() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * URL parameters that reproduce the settings on another machine, so shared join links
+ * point guests at the same signaling server. Empty when running against the defaults.
+ */
+export function toUrlParams(settings: NetworkSettings): URLSearchParams {
+  const params = new URLSearchParams();
+  if (settings.host) {
+    params.set('peerHost', settings.host);
+    if (settings.port) params.set('peerPort', String(settings.port));
+    if (settings.path && settings.path !== '/') params.set('peerPath', settings.path);
+    if (settings.key && settings.key !== 'peerjs') params.set('peerKey', settings.key);
+    if (!settings.secure) params.set('peerSecure', 'false');
+  }
+  if (settings.iceServers.length > 0) {
+    params.set('ice', JSON.stringify(settings.iceServers));
+  }
+  return params;
+}
+
+/**
+ * Maps our settings onto PeerJS options. Unset fields are left out so PeerJS keeps its own defaults.
+ */
+export function toPeerOptions(settings: NetworkSettings): PeerOptions {
+  const options: PeerOptions = {};
+  if (settings.host) {
+    options.host = settings.host;
+    options.path = settings.path || '/';
+    options.secure = settings.secure;
+    options.key = settings.key || 'peerjs';
+    if (settings.port) options.port = settings.port;
+  }
+  if (settings.iceServers.length > 0) {
+    options.config = { iceServers: settings.iceServers };
+  }
+  return options;
+}
@@ -0,0 +1,26 @@
+const STORAGE_KEY = 'retrolink.displayName';
+
+/** Longest display name shown to the host; longer ones are cut. */
+export const DISPLAY_NAME_MAX_LENGTH = 24;
+
+/** Collapses whitespace and cuts the name to DISPLAY_NAME_MAX_LENGTH. */
+export function cleanDisplayName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, DISPLAY_NAME_MAX_LENGTH);
+}
+
+export function loadDisplayName(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch (e) {
+    console.warn("Failed to read stored display name", e);
+    return '';
+  }
+}
+
+export function saveDisplayName(name: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, cleanDisplayName(name));
+  } catch (e) {
+    console.warn("Failed to store display name", e);
+  }
+}
@@ -0,0 +1,144 @@
+import type { DataConnection } from 'peerjs';
+import { PeerMessage, PeerMessageType, PeerCapability, HelloPayload, JoinIdentity, NetplayMode, Platform } from '../types';
+import { MAX_ROM_BYTES } from './romTransfer';
+
+/**
+ * Wire protocol version. Bump whenever a message shape changes incompatibly,
+ * so mismatched builds refuse each other during the HELLO handshake instead of misbehaving.
+ */
+export const PROTOCOL_VERSION = 4;
+
+export const APP_NAME = 'RetroLink';
+
+/** Features this build supports, announced in HELLO. The other side must support all of them. */
+export const APP_CAPABILITIES: PeerCapability[] = ['multitap', 'spectator', 'lockstep', 'stats', 'chat', 'voice', 'rom-transfer', 'port-assign', 'join-approval', 'playback'];
+
+/** Longest chat line accepted from a peer. */
+export const CHAT_MAX_LENGTH = 500;
+
+/**
+ * Raised when an incoming message is malformed, unknown or arrives out of order.
+ */
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// --- Runtime validation ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+const isOptionalBoolean = (v: unknown) => v === undefined || typeof v === 'boolean';
+const isOptionalString = (v: unknown) => v === undefined || typeof v === 'string';
+
+const REQUIRED_BUTTONS = ['up', 'down', 'left', 'right', 'a', 'b', 'start', 'select'];
+const OPTIONAL_BUTTONS = ['x', 'y', 'l', 'r'];
+
+const isControllerInput = (v: unknown) =>
+  isObject(v) &&
+  REQUIRED_BUTTONS.every(b => typeof v[b] === 'boolean') &&
+  OPTIONAL_BUTTONS.every(b => isOptionalBoolean(v[b]));
+
+const isRomInfo = (v: unknown) =>
+  isObject(v) && isString(v.name) && isNumber(v.size) && (v.sha1 === null || isString(v.sha1)) && isString(v.crc32);
+
+const isPortList = (v: unknown) => Array.isArray(v) && v.every(isNumber);
+
+const PAUSE_REASONS = ['host', 'hidden', 'disconnect'];
+
+const isEnumValue = (e: Record<string, string>, v: unknown) => Object.values(e).includes(v as string);
+
+const PAYLOAD_VALIDATORS: Record<PeerMessageType, (payload: unknown) => boolean> = {
+  HELLO: p => isObject(p) && isNumber(p.version) && isString(p.app) && Array.isArray(p.capabilities) && p.capabilities.every(isString) && isOptionalString(p.name) && isOptionalString(p.password),
+  INPUT: p => p instanceof ArrayBuffer, // Binary input packet, see inputCodec.ts
+  STATE_UPDATE: p => isObject(p) && isObject(p.p1) && isObject(p.p2) && isNumber(p.timestamp),
+  PLATFORM_CHANGE: p => isEnumValue(Platform, p),
+  ROM_LOAD: p => isObject(p) && isString(p.name),
+  ROM_INFO: isRomInfo,
+  ROM_REQUEST: p => isObject(p) && isString(p.name),
+  ROM_TRANSFER_START: p => isObject(p) && isString(p.transferId) && isRomInfo(p.info) && isCount(p.chunkSize) && isCount(p.totalChunks) && p.chunkSize * p.totalChunks <= MAX_ROM_BYTES,
+  ROM_CHUNK: p => isObject(p) && isString(p.transferId) && isNumber(p.index) && p.data instanceof ArrayBuffer,
+  ROM_CHUNK_ACK: p => isObject(p) && isString(p.transferId) && isNumber(p.index),
+  ROM_TRANSFER_CANCEL: p => isObject(p) && isString(p.transferId) && isString(p.reason),
+  SAVE_RESTORE: p => isObject(p) && isString(p.romName) && (p.romCrc32 === null || isString(p.romCrc32)) && p.state instanceof ArrayBuffer,
+  CHAT: p => isObject(p) && isString(p.text) && p.text.length <= CHAT_MAX_LENGTH && isNumber(p.sentAt) && isOptionalString(p.sender),
+  PLAYER_ASSIGN: p => isObject(p) && isNumber(p.port),
+  REJECT: p => isObject(p) && isString(p.reason),
+  VIEWER_COUNT: p => isObject(p) && isNumber(p.count),
+  NETPLAY_MODE: p => isObject(p) && isEnumValue(NetplayMode, p.mode),
+  LOCKSTEP_READY: p => isObject(p) && isString(p.name),
+  LOCKSTEP_START: p => isObject(p) && isNumber(p.epoch) && Array.isArray(p.ports) && p.ports.every(isNumber) && p.state instanceof ArrayBuffer,
+  LOCKSTEP_INPUT: p => isObject(p) && isNumber(p.epoch) && isNumber(p.frame) && isNumber(p.port) && isControllerInput(p.input),
+  VOICE_ACTIVITY: p => isObject(p) && isPortList(p.ports),
+  PORT_MAP: p => isObject(p) && isNumber(p.port) && typeof p.locked === 'boolean' && isNumber(p.hostPort) && isPortList(p.guestPorts) && isPortList(p.lockedPorts),
+  PLAYBACK: p => isObject(p) && typeof p.paused === 'boolean' && (p.reason === null || (isString(p.reason) && PAUSE_REASONS.includes(p.reason))) && isNumber(p.rate) && p.rate > 0,
+  PING: p => isObject(p) && isNumber(p.id) && isNumber(p.sentAt),
+  PONG: p => isObject(p) && isNumber(p.id) && isNumber(p.sentAt),
+};
+
+/** Messages that only ever flow from the host; a host drops them from anyone else. */
+export const HOST_ONLY_MESSAGES: ReadonlySet<PeerMessageType> = new Set<PeerMessageType>([
+  'STATE_UPDATE', 'PLATFORM_CHANGE', 'ROM_LOAD', 'ROM_INFO', 'PLAYER_ASSIGN', 'REJECT', 'VIEWER_COUNT',
+  'NETPLAY_MODE', 'LOCKSTEP_START', 'VOICE_ACTIVITY', 'PORT_MAP', 'PLAYBACK', 'ROM_TRANSFER_START', 'ROM_CHUNK',
+]);
+
+/** Everything a spectator may send: it only watches and chats. */
+export const SPECTATOR_MESSAGES: ReadonlySet<PeerMessageType> = new Set<PeerMessageType>(['HELLO', 'PING', 'PONG', 'CHAT']);
+
+/**
+ * Checks raw data from a DataConnection and returns it as a typed message.
+ * Throws a ProtocolError describing what was wrong otherwise.
+ */
+export function parsePeerMessage(data: unknown): PeerMessage {
+  if (!isObject(data) || !isString(data.type)) {
+    throw new ProtocolError('Malformed message: expected an object with a string "type"');
+  }
+  const validate = PAYLOAD_VALIDATORS[data.type as PeerMessageType];
+  if (!validate) {
+    throw new ProtocolError(`Unknown message type "${data.type}"`);
+  }
+  if (!validate(data.payload)) {
+    throw new ProtocolError(`Invalid payload for ${data.type}`);
+  }
+  return data as PeerMessage;
+}
+
+// --- Handshake ---
+
+/**
+ * Our HELLO. A joining peer includes its identity; the host sends its HELLO only once it lets the peer in.
+ */
+export function createHello(identity?: JoinIdentity): PeerMessage {
+  const payload: HelloPayload = { version: PROTOCOL_VERSION, app: APP_NAME, capabilities: APP_CAPABILITIES };
+  if (identity) {
+    payload.name = identity.name;
+    if (identity.password) payload.password = identity.password;
+  }
+  return { type: 'HELLO', payload };
+}
+
+/**
+ * Checks the other side's HELLO against this build.
+ * Throws a ProtocolError with a user-facing reason when the builds can't talk to each other.
+ */
+export function checkHello(hello: HelloPayload) {
+  if (hello.app !== APP_NAME) {
+    throw new ProtocolError(`Unknown client "${hello.app}"`);
+  }
+  if (hello.version !== PROTOCOL_VERSION) {
+    throw new ProtocolError(`Protocol version mismatch (ours v${PROTOCOL_VERSION}, theirs v${hello.version}) - both sides need the same RetroLink build`);
+  }
+  const missing = APP_CAPABILITIES.filter(c => !hello.capabilities.includes(c));
+  if (missing.length > 0) {
+    throw new ProtocolError(`The other side lacks ${missing.join(', ')} - both sides need the same RetroLink build`);
+  }
+}
+
+/** Type-checked send; silently drops the message when the channel isn't open. */
+export function sendMessage(conn: DataConnection, msg: PeerMessage) {
+  if (conn.open) conn.send(msg);
+}
@@ -0,0 +1,93 @@
+import { ReconnectState } from '../types';
+
+interface ReconnectOptions {
+  baseDelay?: number;
+  maxDelay?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Retries a dropped connection with exponential backoff.
+ * `attempt` is fired on every retry; the caller reports back through `succeed()` once the link is up again.
+ */
+export class ReconnectService {
+  private attempt: (attempt: number) => void;
+  private onStateChange: (state: ReconnectState | null) => void;
+  private baseDelay: number;
+  private maxDelay: number;
+  private maxAttempts: number;
+
+  private attempts: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private active: boolean = false;
+
+  constructor(
+    attempt: (attempt: number) => void,
+    onStateChange: (state: ReconnectState | null) => void,
+    { baseDelay = 1000, maxDelay = 30000, maxAttempts = 8 }: ReconnectOptions = {}
+  ) {
+    this.attempt = attempt;
+    this.onStateChange = onStateChange;
+    this.baseDelay = baseDelay;
+    this.maxDelay = maxDelay;
+    this.maxAttempts = maxAttempts;
+  }
+
+  public get isActive(): boolean {
+    return this.active;
+  }
+
+  /** Begins a new retry cycle, unless one is already running. */
+  public start() {
+    if (this.active) return;
+    this.active = true;
+    this.attempts = 0;
+    this.scheduleNext();
+  }
+
+  /** Skips the remaining backoff and tries again immediately (also restarts a failed cycle). */
+  public retryNow() {
+    this.clearTimer();
+    this.active = true;
+    if (this.attempts >= this.maxAttempts) this.attempts = 0;
+    this.fire();
+  }
+
+  public succeed() {
+    this.stop();
+  }
+
+  public stop() {
+    this.clearTimer();
+    this.active = false;
+    this.attempts = 0;
+    this.onStateChange(null);
+  }
+
+  private scheduleNext() {
+    if (this.attempts >= this.maxAttempts) {
+      this.clearTimer();
+      this.onStateChange({ attempt: this.attempts, maxAttempts: this.maxAttempts, nextRetryAt: null, failed: true });
+      return;
+    }
+
+    const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** this.attempts);
+    this.onStateChange({ attempt: this.attempts + 1, maxAttempts: this.maxAttempts, nextRetryAt: Date.now() + delay, failed: false });
+    this.timer = setTimeout(() => this.fire(), delay);
+  }
+
+  private fire() {
+    this.timer = null;
+    this.attempts++;
+    this.attempt(this.attempts);
+    // Queue the following attempt; a successful one cancels it through succeed()
+    this.scheduleNext();
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Platform, RewindSettings } from '../types';
+import { getPlatformInfo } from '../engine/platforms';
+
+const STORAGE_KEY = 'retrolink.rewind';
+
+/** The user's changes, per system; systems missing here use their defaults. */
+export type RewindOverrides = Partial<Record<Platform, RewindSettings>>;
+
+/** Choices offered for how far back rewind reaches. */
+export const REWIND_SECONDS_OPTIONS = [5, 10, 15, 20, 30, 60];
+
+export function rewindSettingsFor(overrides: RewindOverrides, platform: Platform): RewindSettings {
+  const { enabled, seconds } = getPlatformInfo(platform).rewind;
+  return overrides[platform] ?? { enabled, seconds };
+}
+
+export function loadRewindOverrides(): RewindOverrides {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn("Failed to read stored rewind settings", e);
+    return {};
+  }
+}
+
+export function saveRewindOverrides(overrides: RewindOverrides) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (e) {
+    console.warn("Failed to store rewind settings", e);
+  }
+}
@@ -0,0 +1,49 @@
+import { RomHash } from '../types';
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+const toHex = (value: number, digits: number) => value.toString(16).padStart(digits, '0');
+
+/** CRC32 (IEEE) as 8 lowercase hex digits, the form used by No-Intro/Redump DAT files. */
+export function crc32(data: Uint8Array): string {
+  const table = getCrcTable();
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return toHex((crc ^ 0xFFFFFFFF) >>> 0, 8);
+}
+
+/**
+ * SHA-1 as lowercase hex. Null outside a secure context, where crypto.subtle is unavailable.
+ */
+export async function sha1(data: ArrayBuffer): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', data));
+  return Array.from(digest, b => toHex(b, 2)).join('');
+}
+
+export async function hashRom(data: ArrayBuffer): Promise<RomHash> {
+  return { sha1: await sha1(data), crc32: crc32(new Uint8Array(data)) };
+}
+
+/**
+ * Compares by SHA-1 when both sides have one, otherwise by CRC32.
+ */
+export function hashesMatch(a: RomHash, b: RomHash): boolean {
+  if (a.sha1 && b.sha1) return a.sha1 === b.sha1;
+  return a.crc32 === b.crc32;
+}
@@ -0,0 +1,85 @@
+import { LibraryEntry, Platform, RomHash, RomInfo, RomSet } from '../types';
+import { STORES, runRequest } from './database';
+
+const ENABLED_KEY = 'retrolink.libraryEnabled';
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+/** Whether loaded games go into the library; on unless the user turned it off. */
+export function loadLibraryEnabled(): boolean {
+  try {
+    return localStorage.getItem(ENABLED_KEY) !== 'false';
+  } catch (e) {
+    console.warn("Failed to read library setting", e);
+    return true;
+  }
+}
+
+export function saveLibraryEnabled(enabled: boolean) {
+  try {
+    localStorage.setItem(ENABLED_KEY, String(enabled));
+  } catch (e) {
+    console.warn("Failed to store library setting", e);
+  }
+}
+
+export const libraryId = (hash: RomHash) => hash.sha1 ?? hash.crc32;
+
+export async function getLibraryEntry(id: string): Promise<LibraryEntry | undefined> {
+  return runRequest(STORES.LIBRARY, 'readonly', store => store.get(id) as IDBRequest<LibraryEntry | undefined>);
+}
+
+/** Every stored game, most recently played first. */
+export async function listLibrary(): Promise<LibraryEntry[]> {
+  const entries = await runRequest(STORES.LIBRARY, 'readonly', store => store.getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.sort((a, b) => b.lastPlayedAt - a.lastPlayedAt);
+}
+
+/**
+ * Stores a game the host just launched, or marks an already stored one as played now.
+ * `info` is the hash of the game's first file, as announced to the guests.
+ */
+export async function rememberRom(rom: RomSet, platform: Platform, info: RomInfo): Promise<LibraryEntry> {
+  const id = libraryId(info);
+  const now = Date.now();
+  const existing = await getLibraryEntry(id);
+  const entry: LibraryEntry = existing
+    ? { ...existing, platform, lastPlayedAt: now }
+    : {
+        id,
+        name: rom.name,
+        platform,
+        crc32: info.crc32,
+        size: rom.files.reduce((sum, f) => sum + f.size, 0),
+        files: rom.files,
+        discs: rom.discs,
+        addedAt: now,
+        lastPlayedAt: now,
+        playTimeMs: 0,
+      };
+  await runRequest(STORES.LIBRARY, 'readwrite', store => store.put(entry));
+  return entry;
+}
+
+/** Adds a stretch of play to a stored game; a game deleted meanwhile is left alone. */
+export async function addPlayTime(id: string, elapsedMs: number): Promise<void> {
+  const entry = await getLibraryEntry(id);
+  if (!entry) return;
+  await runRequest(STORES.LIBRARY, 'readwrite', store => store.put({ ...entry, playTimeMs: entry.playTimeMs + elapsedMs }));
+}
+
+export async function removeFromLibrary(id: string): Promise<void> {
+  await runRequest(STORES.LIBRARY, 'readwrite', store => store.delete(id));
+}
+
+export const entryToRomSet = (entry: LibraryEntry): RomSet => ({ name: entry.name, files: entry.files, discs: entry.discs });
+
+/** The browser's storage estimate for this origin, or null where the API is missing. */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return { usedBytes: usage ?? 0, quotaBytes: quota ?? 0 };
+}
@@ -0,0 +1,72 @@
+import { RomSet } from '../types';
+
+const extensionOf = (filename: string) => filename.split('.').pop()?.toLowerCase() ?? '';
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+// "Final Fantasy VII (USA) (Disc 2).cue" -> "Final Fantasy VII (USA)"
+const DISC_MARKER = /\s*\(Disc \d+\)/i;
+
+export const singleRom = (file: File): RomSet => ({ name: file.name, files: [file], discs: 1 });
+
+// FILE "Track 01.bin" BINARY
+const cueTracks = (text: string) =>
+  Array.from(text.matchAll(/^\s*FILE\s+(?:"([^"]+)"|(\S+))/gim), m => m[1] ?? m[2]);
+
+const playlistEntries = (text: string) =>
+  text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+/**
+ * Sorts a selection of files into launchable games: `.m3u` playlists with their discs,
+ * `.cue` sheets with their tracks, and everything else on its own. Separate cue sheets
+ * named "... (Disc N)" are joined by a generated playlist so the discs can be swapped.
+ * Throws when a cue sheet or playlist refers to a file that wasn't selected.
+ */
+export async function groupRomSets(files: File[]): Promise<RomSet[]> {
+  const byName = new Map(files.map(f => [f.name.toLowerCase(), f]));
+  const used = new Set<File>();
+
+  const resolve = (owner: File, names: string[]) => names.map(name => {
+    const file = byName.get(baseName(name).toLowerCase());
+    if (!file) throw new Error(`${owner.name} needs ${baseName(name)}, which wasn't selected`);
+    return file;
+  });
+
+  // A disc image with the tracks its cue sheet lists
+  const discFiles = async (disc: File): Promise<File[]> =>
+    extensionOf(disc.name) === 'cue' ? [disc, ...resolve(disc, cueTracks(await disc.text()))] : [disc];
+
+  const sets: RomSet[] = [];
+  for (const playlist of files.filter(f => extensionOf(f.name) === 'm3u')) {
+    const discs = resolve(playlist, playlistEntries(await playlist.text()));
+    const contents = (await Promise.all(discs.map(discFiles))).flat();
+    [playlist, ...contents].forEach(f => used.add(f));
+    sets.push({ name: playlist.name, files: [playlist, ...contents], discs: discs.length });
+  }
+
+  const cueSets: RomSet[] = [];
+  for (const cue of files.filter(f => extensionOf(f.name) === 'cue' && !used.has(f))) {
+    const contents = await discFiles(cue);
+    contents.forEach(f => used.add(f));
+    cueSets.push({ name: cue.name, files: contents, discs: 1 });
+  }
+
+  // Discs of one game, in disc order
+  const byTitle = new Map<string, RomSet[]>();
+  cueSets.forEach(set => {
+    const title = DISC_MARKER.test(set.name) ? set.name.replace(DISC_MARKER, '').replace(/\.cue$/i, '') : set.name;
+    byTitle.set(title, [...(byTitle.get(title) ?? []), set]);
+  });
+  byTitle.forEach((discs, title) => {
+    if (discs.length === 1) {
+      sets.push(discs[0]);
+      return;
+    }
+    discs.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    const playlist = new File([discs.map(d => d.name).join('\n')], `${title}.m3u`);
+    sets.push({ name: playlist.name, files: [playlist, ...discs.flatMap(d => d.files)], discs: discs.length });
+  });
+
+  files.filter(f => !used.has(f)).forEach(f => sets.push(singleRom(f)));
+  return sets;
+}
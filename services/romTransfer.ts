@@ -0,0 +1,127 @@
+import { PeerMessage, RomInfo, RomTransferStartPayload } from '../types';
+import { hashRom, hashesMatch } from './romHash';
+
+export const ROM_CHUNK_SIZE = 16 * 1024;
+
+/** Largest ROM sent or accepted; the receiver holds all of it in memory. */
+export const MAX_ROM_BYTES = 1024 * 1024 * 1024;
+
+// Chunks in flight before the sender waits for acknowledgements
+const SEND_WINDOW = 16;
+
+/**
+ * Host side of one ROM transfer: sends the file in numbered chunks and keeps at most
+ * SEND_WINDOW of them unacknowledged, so a slow guest throttles the sender instead of
+ * piling up the data channel's buffer.
+ */
+export class RomTransferSender {
+  public readonly id: string;
+  public readonly info: RomInfo;
+
+  private data: ArrayBuffer;
+  private send: (msg: PeerMessage) => void;
+  private onProgress: (bytesDone: number) => void;
+  private totalChunks: number;
+  private nextChunk: number = 0;
+  private acked: Set<number> = new Set();
+  private finished: boolean = false;
+
+  constructor(id: string, info: RomInfo, data: ArrayBuffer, send: (msg: PeerMessage) => void, onProgress: (bytesDone: number) => void) {
+    this.id = id;
+    this.info = info;
+    this.data = data;
+    this.send = send;
+    this.onProgress = onProgress;
+    this.totalChunks = Math.ceil(data.byteLength / ROM_CHUNK_SIZE);
+  }
+
+  public get isFinished(): boolean {
+    return this.finished;
+  }
+
+  public start() {
+    this.send({
+        type: 'ROM_TRANSFER_START',
+        payload: { transferId: this.id, info: this.info, chunkSize: ROM_CHUNK_SIZE, totalChunks: this.totalChunks },
+    });
+    this.fillWindow();
+  }
+
+  public handleAck(index: number) {
+    if (this.finished || index < 0 || index >= this.totalChunks) return;
+    this.acked.add(index);
+    this.finished = this.acked.size === this.totalChunks;
+    this.onProgress(Math.min(this.acked.size * ROM_CHUNK_SIZE, this.data.byteLength));
+    if (!this.finished) this.fillWindow();
+  }
+
+  public cancel(reason: string) {
+    if (this.finished) return;
+    this.finished = true;
+    this.send({ type: 'ROM_TRANSFER_CANCEL', payload: { transferId: this.id, reason } });
+  }
+
+  private fillWindow() {
+    while (this.nextChunk < this.totalChunks && this.nextChunk - this.acked.size < SEND_WINDOW) {
+        const index = this.nextChunk++;
+        const start = index * ROM_CHUNK_SIZE;
+        this.send({
+            type: 'ROM_CHUNK',
+            payload: { transferId: this.id, index, data: this.data.slice(start, start + ROM_CHUNK_SIZE) },
+        });
+    }
+  }
+}
+
+/**
+ * Guest side of one ROM transfer: collects chunks in any order, acknowledges each one,
+ * and checks the assembled file against the host's hash.
+ */
+export class RomTransferReceiver {
+  public readonly id: string;
+  public readonly info: RomInfo;
+
+  private chunkSize: number;
+  private totalChunks: number;
+  private chunks: (ArrayBuffer | undefined)[];
+  private received: number = 0;
+
+  constructor(start: RomTransferStartPayload) {
+    this.id = start.transferId;
+    this.info = start.info;
+    this.chunkSize = start.chunkSize;
+    this.totalChunks = start.totalChunks;
+    this.chunks = new Array(start.totalChunks);
+  }
+
+  public get bytesReceived(): number {
+    return Math.min(this.received * this.chunkSize, this.info.size);
+  }
+
+  public get isComplete(): boolean {
+    return this.received === this.totalChunks;
+  }
+
+  /** Stores a chunk; returns false for an index outside the transfer. Duplicates are harmless. */
+  public receiveChunk(index: number, data: ArrayBuffer): boolean {
+    if (index < 0 || index >= this.totalChunks || !Number.isInteger(index)) return false;
+    if (!this.chunks[index]) {
+        this.chunks[index] = data;
+        this.received++;
+    }
+    return true;
+  }
+
+  /**
+   * The assembled file, or null when its size or hash doesn't match what the host announced.
+   */
+  public async assemble(): Promise<File | null> {
+    if (!this.isComplete) return null;
+    const blob = new Blob(this.chunks as ArrayBuffer[]);
+    if (blob.size !== this.info.size) return null;
+
+    const hash = await hashRom(await blob.arrayBuffer());
+    if (!hashesMatch(hash, this.info)) return null;
+    return new File([blob], this.info.name);
+  }
+}
@@ -0,0 +1,15 @@
+import { StoredSaveRam } from '../types';
+import { STORES, runRequest } from './database';
+
+/**
+ * Battery saves, one per game. Kept apart from the library so they survive
+ * removing a game from it, and written even when the library is turned off.
+ */
+
+export async function getSaveRam(romId: string): Promise<StoredSaveRam | undefined> {
+  return runRequest(STORES.SAVE_RAM, 'readonly', store => store.get(romId) as IDBRequest<StoredSaveRam | undefined>);
+}
+
+export async function putSaveRam(entry: StoredSaveRam): Promise<void> {
+  await runRequest(STORES.SAVE_RAM, 'readwrite', store => store.put(entry));
+}
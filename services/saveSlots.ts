@@ -0,0 +1,106 @@
+import { SaveSlot } from '../types';
+import { STORES, runRequest } from './database';
+
+/** Numbered slots per game. */
+export const SLOT_COUNT = 8;
+
+const BUNDLE_FORMAT = 'retrolink-save-slots';
+const BUNDLE_VERSION = 1;
+
+// A whole game's slots as one JSON file; blobs are base64
+interface SlotBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  romId: string;
+  romName: string;
+  slots: { slot: number; core: string; savedAt: number; state: string; thumbnail: string | null }[];
+}
+
+export type ImportedSlot = Pick<SaveSlot, 'slot' | 'core' | 'savedAt' | 'state' | 'thumbnail'>;
+
+const slotKey = (romId: string, slot: number) => `${romId}:${slot}`;
+
+const toBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In pieces: spreading a few MB into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string, type: string = '') => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+/** The occupied slots of one game, by slot number. */
+export async function listSlots(romId: string): Promise<SaveSlot[]> {
+  const slots = await runRequest(STORES.SAVE_SLOTS, 'readonly', store => store.index('romId').getAll(romId) as IDBRequest<SaveSlot[]>);
+  return slots.sort((a, b) => a.slot - b.slot);
+}
+
+export async function getSlot(romId: string, slot: number): Promise<SaveSlot | undefined> {
+  return runRequest(STORES.SAVE_SLOTS, 'readonly', store => store.get(slotKey(romId, slot)) as IDBRequest<SaveSlot | undefined>);
+}
+
+/** Stores a state in a slot, replacing whatever was there. */
+export async function writeSlot(slot: Omit<SaveSlot, 'key'>): Promise<SaveSlot> {
+  const entry: SaveSlot = { ...slot, key: slotKey(slot.romId, slot.slot) };
+  await runRequest(STORES.SAVE_SLOTS, 'readwrite', store => store.put(entry));
+  return entry;
+}
+
+export async function deleteSlot(romId: string, slot: number): Promise<void> {
+  await runRequest(STORES.SAVE_SLOTS, 'readwrite', store => store.delete(slotKey(romId, slot)));
+}
+
+/** Packs slots of one game into a file that `readSlotBundle` reads back. */
+export async function exportSlots(slots: SaveSlot[]): Promise<Blob> {
+  const bundle: SlotBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    romId: slots[0]?.romId ?? '',
+    romName: slots[0]?.romName ?? '',
+    slots: await Promise.all(slots.map(async s => ({
+      slot: s.slot,
+      core: s.core,
+      savedAt: s.savedAt,
+      state: await toBase64(s.state),
+      thumbnail: s.thumbnail ? await toBase64(s.thumbnail) : null,
+    }))),
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+}
+
+/**
+ * Reads a file written by `exportSlots`. Throws when it isn't one.
+ * Slot numbers outside 1..SLOT_COUNT are dropped.
+ */
+export async function readSlotBundle(file: File): Promise<{ romId: string; romName: string; slots: ImportedSlot[] }> {
+  let bundle: SlotBundle;
+  try {
+    bundle = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error(`${file.name} is not a save slot export`);
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.slots)) {
+    throw new Error(`${file.name} is not a save slot export`);
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(`${file.name} comes from a newer RetroLink version`);
+  }
+  const slots = bundle.slots
+    .filter(s => Number.isInteger(s.slot) && s.slot >= 1 && s.slot <= SLOT_COUNT && typeof s.state === 'string')
+    .map(s => ({
+      slot: s.slot,
+      core: String(s.core ?? ''),
+      savedAt: Number(s.savedAt) || Date.now(),
+      state: fromBase64(s.state),
+      thumbnail: s.thumbnail ? fromBase64(s.thumbnail, 'image/jpeg') : null,
+    }));
+  return { romId: String(bundle.romId ?? ''), romName: String(bundle.romName ?? ''), slots };
+}
@@ -0,0 +1,122 @@
+import { NetworkSample } from '../types';
+
+/** Samples kept per link for the rolling graph (one per second). */
+export const STATS_HISTORY_LENGTH = 60;
+
+/**
+ * Round-trip tracking for PING/PONG over the data channel.
+ * Jitter is the smoothed difference between consecutive round trips (RFC 3550 style).
+ */
+export class LatencyTracker {
+  private nextId: number = 1;
+  private rtt: number | null = null;
+  private jitter: number | null = null;
+
+  public createPing(): { id: number; sentAt: number } {
+    return { id: this.nextId++, sentAt: performance.now() };
+  }
+
+  public recordPong(sentAt: number) {
+    const sample = performance.now() - sentAt;
+    if (this.rtt !== null) {
+        const delta = Math.abs(sample - this.rtt);
+        this.jitter = this.jitter === null ? delta : this.jitter + (delta - this.jitter) / 16;
+    }
+    this.rtt = sample;
+  }
+
+  public get rttMs(): number | null {
+    return this.rtt;
+  }
+
+  public get jitterMs(): number | null {
+    return this.jitter;
+  }
+}
+
+/**
+ * Turns the cumulative counters from RTCPeerConnection.getStats() into per-second figures
+ * for the video track of one media call.
+ */
+export class MediaStatsCollector {
+  private pc: RTCPeerConnection;
+  private lastBytes: number | null = null;
+  private lastTimestamp: number | null = null;
+  private lastJitterBufferDelay: number | null = null;
+  private lastJitterBufferEmitted: number | null = null;
+
+  constructor(pc: RTCPeerConnection) {
+    this.pc = pc;
+  }
+
+  public async sample(): Promise<Partial<NetworkSample>> {
+    const result: Partial<NetworkSample> = {};
+    let report: RTCStatsReport;
+    try {
+        report = await this.pc.getStats();
+    } catch (e) {
+        console.warn("getStats failed", e);
+        return result;
+    }
+
+    report.forEach((stat: any) => {
+        if (stat.kind !== 'video' && stat.mediaType !== 'video') return;
+
+        if (stat.type === 'inbound-rtp') {
+            // Guest side: what actually arrived and got decoded
+            this.updateBitrate(result, stat.bytesReceived, stat.timestamp);
+            const received = stat.packetsReceived ?? 0;
+            const lost = stat.packetsLost ?? 0;
+            result.packetLossPct = received + lost > 0 ? (lost / (received + lost)) * 100 : 0;
+            result.framesDecoded = stat.framesDecoded ?? null;
+            result.framesDropped = stat.framesDropped ?? null;
+            this.updateJitterBuffer(result, stat.jitterBufferDelay, stat.jitterBufferEmittedCount);
+        } else if (stat.type === 'outbound-rtp') {
+            // Host side: what we put on the wire
+            this.updateBitrate(result, stat.bytesSent, stat.timestamp);
+        } else if (stat.type === 'remote-inbound-rtp') {
+            // Host side: the guest's receiver report about our stream
+            if (stat.fractionLost !== undefined) result.packetLossPct = stat.fractionLost * 100;
+        }
+    });
+
+    return result;
+  }
+
+  private updateBitrate(result: Partial<NetworkSample>, bytes: number | undefined, timestamp: number) {
+    if (bytes === undefined) return;
+    if (this.lastBytes !== null && this.lastTimestamp !== null && timestamp > this.lastTimestamp) {
+        result.bitrateKbps = ((bytes - this.lastBytes) * 8) / (timestamp - this.lastTimestamp);
+    }
+    this.lastBytes = bytes;
+    this.lastTimestamp = timestamp;
+  }
+
+  // Average delay of the frames that left the jitter buffer since the last sample, not since the call started
+  private updateJitterBuffer(result: Partial<NetworkSample>, delay: number | undefined, emitted: number | undefined) {
+    if (delay === undefined || emitted === undefined) return;
+    if (this.lastJitterBufferDelay !== null && this.lastJitterBufferEmitted !== null && emitted > this.lastJitterBufferEmitted) {
+        result.jitterBufferMs = ((delay - this.lastJitterBufferDelay) / (emitted - this.lastJitterBufferEmitted)) * 1000;
+    }
+    this.lastJitterBufferDelay = delay;
+    this.lastJitterBufferEmitted = emitted;
+  }
+}
+
+export function createEmptySample(): NetworkSample {
+  return {
+    timestamp: Date.now(),
+    rttMs: null,
+    jitterMs: null,
+    bitrateKbps: null,
+    packetLossPct: null,
+    framesDecoded: null,
+    framesDropped: null,
+    jitterBufferMs: null,
+  };
+}
+
+export function pushSample(history: NetworkSample[], sample: NetworkSample): NetworkSample[] {
+  const next = [...history, sample];
+  return next.length > STATS_HISTORY_LENGTH ? next.slice(next.length - STATS_HISTORY_LENGTH) : next;
+}
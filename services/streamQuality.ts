@@ -0,0 +1,181 @@
+import { NetworkSample, StreamQualityConfig, StreamQualityPreset, StreamQualitySettings, VideoCodec } from '../types';
+
+const STORAGE_KEY = 'retrolink.streamQuality';
+
+export const QUALITY_PRESETS: Record<StreamQualityPreset.LOW_LATENCY | StreamQualityPreset.BALANCED | StreamQualityPreset.HIGH_QUALITY, StreamQualitySettings> = {
+  // Smaller frames encode and decode faster, and VP8 is the cheapest codec everywhere
+  [StreamQualityPreset.LOW_LATENCY]: { fps: 60, maxBitrateKbps: 2000, scaleDown: 2, codec: 'VP8' },
+  [StreamQualityPreset.BALANCED]: { fps: 30, maxBitrateKbps: 2500, scaleDown: 1, codec: 'auto' },
+  [StreamQualityPreset.HIGH_QUALITY]: { fps: 60, maxBitrateKbps: 8000, scaleDown: 1, codec: 'VP9' },
+};
+
+export const DEFAULT_STREAM_QUALITY: StreamQualityConfig = {
+  preset: StreamQualityPreset.BALANCED,
+  manual: { ...QUALITY_PRESETS[StreamQualityPreset.BALANCED] },
+};
+
+/**
+ * Steps the auto mode moves through, worst to best. Capture runs at the top step's fps;
+ * lower steps only cap the encoder.
+ */
+export const AUTO_LADDER: StreamQualitySettings[] = [
+  { fps: 20, maxBitrateKbps: 400, scaleDown: 2, codec: 'auto' },
+  { fps: 30, maxBitrateKbps: 1000, scaleDown: 1.5, codec: 'auto' },
+  { fps: 30, maxBitrateKbps: 2500, scaleDown: 1, codec: 'auto' },
+  { fps: 60, maxBitrateKbps: 4000, scaleDown: 1, codec: 'auto' },
+  { fps: 60, maxBitrateKbps: 8000, scaleDown: 1, codec: 'auto' },
+];
+
+const AUTO_START_LEVEL = 2;
+
+/**
+ * The settings a new stream starts with. Auto mode starts in the middle of the ladder.
+ */
+export function resolveQuality(config: StreamQualityConfig): StreamQualitySettings {
+  switch (config.preset) {
+    case StreamQualityPreset.MANUAL: return config.manual;
+    case StreamQualityPreset.AUTO: return AUTO_LADDER[AUTO_START_LEVEL];
+    default: return QUALITY_PRESETS[config.preset];
+  }
+}
+
+/** Frame rate to capture the canvas at; the encoder can still be capped lower per guest. */
+export function captureFps(config: StreamQualityConfig): number {
+  return config.preset === StreamQualityPreset.AUTO ? AUTO_LADDER[AUTO_LADDER.length - 1].fps : resolveQuality(config).fps;
+}
+
+/**
+ * Caps bitrate, frame rate and resolution of the video sender. Needs a negotiated connection,
+ * before that the sender has no encodings to configure.
+ */
+export async function applySenderQuality(pc: RTCPeerConnection, settings: StreamQualitySettings) {
+  const sender = pc.getSenders().find(s => s.track?.kind === 'video');
+  if (!sender) return;
+
+  const params = sender.getParameters();
+  if (!params.encodings || params.encodings.length === 0) return;
+  params.encodings.forEach((encoding) => {
+      encoding.maxBitrate = settings.maxBitrateKbps * 1000;
+      encoding.maxFramerate = settings.fps;
+      encoding.scaleResolutionDownBy = settings.scaleDown;
+  });
+  // Pixel-art games look worse with blurry frames than with dropped ones
+  params.degradationPreference = 'maintain-resolution';
+
+  try {
+      await sender.setParameters(params);
+  } catch (e) {
+      console.warn("Failed to apply stream quality", e);
+  }
+}
+
+/**
+ * SDP transform that moves the preferred video codec (and its RTX retransmission format)
+ * to the front of the offer, so the guest picks it when it supports it.
+ */
+export function preferCodec(codec: VideoCodec): (sdp: string) => string {
+  return (sdp: string) => {
+    if (codec === 'auto') return sdp;
+
+    const lines = sdp.split('\r\n');
+    const mIndex = lines.findIndex(l => l.startsWith('m=video'));
+    if (mIndex === -1) return sdp;
+    let end = lines.findIndex((l, i) => i > mIndex && l.startsWith('m='));
+    if (end === -1) end = lines.length;
+    const section = lines.slice(mIndex, end);
+
+    const preferred = new Set<string>();
+    section.forEach((line) => {
+        const match = line.match(/^a=rtpmap:(\d+) ([\w-]+)\/90000/);
+        if (match && match[2].toUpperCase() === codec) preferred.add(match[1]);
+    });
+    if (preferred.size === 0) return sdp;
+    section.forEach((line) => {
+        const match = line.match(/^a=fmtp:(\d+) apt=(\d+)/);
+        if (match && preferred.has(match[2])) preferred.add(match[1]);
+    });
+
+    const parts = lines[mIndex].split(' ');
+    const payloadTypes = parts.slice(3);
+    lines[mIndex] = [
+        ...parts.slice(0, 3),
+        ...payloadTypes.filter(pt => preferred.has(pt)),
+        ...payloadTypes.filter(pt => !preferred.has(pt)),
+    ].join(' ');
+    return lines.join('\r\n');
+  };
+}
+
+// Auto mode thresholds
+const LOSS_DOWN_PCT = 5;
+const LOSS_UP_PCT = 1;
+const RTT_RISE_FACTOR = 1.5;
+const RTT_RISE_SLACK_MS = 30;
+const DOWN_COOLDOWN_MS = 3000;
+const UP_AFTER_SAMPLES = 10;
+
+/**
+ * Auto mode for one guest's stream: steps down the ladder as soon as the link shows loss or
+ * a rising round trip, and only climbs back after a stretch of clean samples.
+ */
+export class AutoQualityController {
+  private level: number = AUTO_START_LEVEL;
+  private baselineRtt: number | null = null;
+  private cleanSamples: number = 0;
+  private lastChangeAt: number = 0;
+
+  public get settings(): StreamQualitySettings {
+    return AUTO_LADDER[this.level];
+  }
+
+  /** Feeds one stats sample; returns true when the level changed and the sender needs updating. */
+  public update(sample: NetworkSample, now: number = Date.now()): boolean {
+    const { packetLossPct: loss, rttMs: rtt } = sample;
+
+    let rttRising = false;
+    if (rtt !== null) {
+        // Lowest RTT seen, drifting up slowly so a permanent route change doesn't look like congestion forever
+        this.baselineRtt = this.baselineRtt === null || rtt < this.baselineRtt ? rtt : this.baselineRtt + (rtt - this.baselineRtt) / 64;
+        rttRising = rtt > this.baselineRtt * RTT_RISE_FACTOR + RTT_RISE_SLACK_MS;
+    }
+
+    if ((loss !== null && loss > LOSS_DOWN_PCT) || rttRising) {
+        this.cleanSamples = 0;
+        if (this.level > 0 && now - this.lastChangeAt >= DOWN_COOLDOWN_MS) {
+            this.level--;
+            this.lastChangeAt = now;
+            return true;
+        }
+        return false;
+    }
+
+    this.cleanSamples = loss === null || loss < LOSS_UP_PCT ? this.cleanSamples + 1 : 0;
+    if (this.cleanSamples >= UP_AFTER_SAMPLES && this.level < AUTO_LADDER.length - 1) {
+        this.level++;
+        this.cleanSamples = 0;
+        this.lastChangeAt = now;
+        return true;
+    }
+    return false;
+  }
+}
+
+export function loadStreamQuality(): StreamQualityConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_STREAM_QUALITY;
+    const stored = JSON.parse(raw);
+    return { ...DEFAULT_STREAM_QUALITY, ...stored, manual: { ...DEFAULT_STREAM_QUALITY.manual, ...stored.manual } };
+  } catch (e) {
+    console.warn("Failed to read stored stream quality", e);
+    return DEFAULT_STREAM_QUALITY;
+  }
+}
+
+export function saveStreamQuality(config: StreamQualityConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.warn("Failed to store stream quality", e);
+  }
+}
@@ -0,0 +1,163 @@
+// RMS level above which a voice counts as speaking
+const SPEAKING_THRESHOLD = 0.02;
+
+export const LOCAL_VOICE_ID = 'local';
+
+interface RemoteVoice {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  // Chrome only pulls remote WebRTC audio into Web Audio while a media element is consuming the stream
+  sink: HTMLAudioElement;
+}
+
+/**
+ * Voice chat audio graph. Every remote voice plays through the voice output (see AudioService.getVoiceOutput).
+ * The host is the hub: each guest gets its own mix of the host's mic plus every other guest,
+ * so a single call per guest is enough for everyone to hear everyone.
+ */
+export class VoiceService {
+  private ctx: AudioContext;
+  private listenGain: GainNode;
+  private micStream: MediaStream | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private micAnalyser: AnalyserNode;
+  private silence: MediaStreamAudioDestinationNode;
+  private remotes: Map<string, RemoteVoice> = new Map();
+  private mixes: Map<string, MediaStreamAudioDestinationNode> = new Map(); // Host: outgoing mix per guest
+  private levelBuffer: Float32Array<ArrayBuffer> = new Float32Array(512);
+
+  constructor(output: GainNode) {
+    this.ctx = output.context as AudioContext;
+    this.listenGain = this.ctx.createGain();
+    this.listenGain.gain.value = 0;
+    this.listenGain.connect(output);
+    this.micAnalyser = this.createAnalyser();
+    this.silence = this.ctx.createMediaStreamDestination();
+  }
+
+  public get hasMic(): boolean {
+    return this.micStream !== null;
+  }
+
+  /**
+   * Stream to send when calling the hub: the mic if we got one, silence otherwise (listen-only).
+   */
+  public get outgoingStream(): MediaStream {
+    return this.micStream ?? this.silence.stream;
+  }
+
+  /**
+   * Asks for the microphone. The track starts disabled; use setTransmitting to open it.
+   * Returns false when permission is denied or no device exists.
+   */
+  public async enableMic(): Promise<boolean> {
+    if (this.micStream) return true;
+    try {
+        this.micStream = await navigator.mediaDevices.getUserMedia({
+            audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+        });
+    } catch (e) {
+        console.warn("Microphone unavailable", e);
+        return false;
+    }
+    this.setTransmitting(false);
+    this.micSource = this.ctx.createMediaStreamSource(this.micStream);
+    this.micSource.connect(this.micAnalyser);
+    this.mixes.forEach(mix => this.micSource!.connect(mix));
+    return true;
+  }
+
+  public disableMic() {
+    this.micSource?.disconnect();
+    this.micSource = null;
+    this.micStream?.getTracks().forEach(t => t.stop());
+    this.micStream = null;
+  }
+
+  public setTransmitting(on: boolean) {
+    this.micStream?.getAudioTracks().forEach(t => { t.enabled = on; });
+  }
+
+  /** Whether remote voices are audible here; the host keeps mixing for guests either way. */
+  public setListening(on: boolean) {
+    this.listenGain.gain.value = on ? 1 : 0;
+  }
+
+  /**
+   * Host: the stream to answer a guest's call with (our mic plus every other guest).
+   */
+  public createMix(id: string): MediaStream {
+    this.mixes.get(id)?.disconnect();
+    const mix = this.ctx.createMediaStreamDestination();
+    this.micSource?.connect(mix);
+    this.remotes.forEach((remote, remoteId) => {
+        if (remoteId !== id) remote.source.connect(mix);
+    });
+    this.mixes.set(id, mix);
+    return mix.stream;
+  }
+
+  public addRemote(id: string, stream: MediaStream) {
+    this.removeRemote(id, false);
+
+    const sink = new Audio();
+    sink.muted = true;
+    sink.srcObject = stream;
+    sink.play().catch(() => {});
+
+    const source = this.ctx.createMediaStreamSource(stream);
+    const analyser = this.createAnalyser();
+    source.connect(analyser);
+    source.connect(this.listenGain);
+    this.mixes.forEach((mix, mixId) => {
+        if (mixId !== id) source.connect(mix);
+    });
+    this.remotes.set(id, { source, analyser, sink });
+  }
+
+  public removeRemote(id: string, dropMix: boolean = true) {
+    const remote = this.remotes.get(id);
+    if (remote) {
+        remote.source.disconnect();
+        remote.sink.srcObject = null;
+        this.remotes.delete(id);
+    }
+    if (dropMix) {
+        this.mixes.get(id)?.disconnect();
+        this.mixes.delete(id);
+    }
+  }
+
+  /**
+   * Ids currently above the speaking threshold; LOCAL_VOICE_ID stands for our own mic.
+   */
+  public getSpeaking(): Set<string> {
+    const speaking = new Set<string>();
+    if (this.micSource && this.isLoud(this.micAnalyser)) speaking.add(LOCAL_VOICE_ID);
+    this.remotes.forEach((remote, id) => {
+        if (this.isLoud(remote.analyser)) speaking.add(id);
+    });
+    return speaking;
+  }
+
+  public destroy() {
+    Array.from(this.remotes.keys()).forEach(id => this.removeRemote(id));
+    this.disableMic();
+    this.listenGain.disconnect();
+  }
+
+  private createAnalyser(): AnalyserNode {
+    const analyser = this.ctx.createAnalyser();
+    analyser.fftSize = 512;
+    return analyser;
+  }
+
+  private isLoud(analyser: AnalyserNode): boolean {
+    analyser.getFloatTimeDomainData(this.levelBuffer);
+    let sum = 0;
+    for (let i = 0; i < this.levelBuffer.length; i++) {
+        sum += this.levelBuffer[i] * this.levelBuffer[i];
+    }
+    return Math.sqrt(sum / this.levelBuffer.length) > SPEAKING_THRESHOLD;
+  }
+}
@@ -1,16 +1,184 @@
 export enum ConnectionRole {
   HOST = 'HOST',
   GUEST = 'GUEST',
+  SPECTATOR = 'SPECTATOR',
   NONE = 'NONE'
 }
 
+export enum NetplayMode {
+  STREAM = 'STREAM', // Host runs the core and streams video to guests
+  LOCKSTEP = 'LOCKSTEP' // Every player runs the core locally and only inputs are exchanged
+}
+
+export enum VoiceMode {
+  PUSH_TO_TALK = 'PUSH_TO_TALK', // Mic only opens while the talk key is held
+  OPEN_MIC = 'OPEN_MIC'
+}
+
 export enum Platform {
   NES = 'Nintendo Entertainment System',
   SNES = 'Super Nintendo',
   GB = 'Game Boy',
   GBA = 'Game Boy Advance',
   GENESIS = 'Sega Genesis',
-  PSX = 'PlayStation'
+  PSX = 'PlayStation',
+  SMS = 'Sega Master System',
+  GAME_GEAR = 'Sega Game Gear',
+  PCE = 'PC Engine',
+  ATARI_2600 = 'Atari 2600',
+  ATARI_7800 = 'Atari 7800',
+  NGP = 'Neo Geo Pocket',
+  WONDERSWAN = 'WonderSwan'
+}
+
+// A firmware file a core reads from its system directory
+export interface BiosRequirement {
+  file: string;
+  description: string;
+  required: boolean; // Optional files improve accuracy; the core falls back to a built-in replacement without them
+  crc32: string; // Of the known good dump, as in the libretro docs
+}
+
+// A BIOS file the user supplied, see services/biosStore.ts
+export interface StoredBios {
+  file: string; // Stored under the name the core expects, whatever it was called on disk
+  platform: Platform;
+  crc32: string;
+  size: number;
+  addedAt: number;
+  data: Blob;
+}
+
+// A game kept in the browser's ROM library, see services/romLibrary.ts
+export interface LibraryEntry {
+  id: string; // SHA-1 of the first file, or its CRC32 outside a secure context
+  name: string;
+  platform: Platform;
+  crc32: string;
+  size: number; // All files together
+  files: File[]; // As in RomSet
+  discs: number;
+  addedAt: number;
+  lastPlayedAt: number;
+  playTimeMs: number;
+}
+
+// One numbered save state of one game, see services/saveSlots.ts
+export interface SaveSlot {
+  key: string; // `${romId}:${slot}`
+  romId: string; // Library id (hash) of the ROM the state was made with
+  romName: string;
+  slot: number;
+  core: string;
+  savedAt: number;
+  thumbnail: Blob | null;
+  state: Blob;
+}
+
+/** A game's battery-backed save RAM, as RetroArch writes it to a .srm file. */
+export interface StoredSaveRam {
+  romId: string; // Library id (hash) of the ROM
+  romName: string;
+  savedAt: number;
+  data: Blob;
+}
+
+// A game as the core launches it: one ROM, or a disc image with its tracks, or a multi-disc playlist
+export interface RomSet {
+  name: string; // Of files[0]
+  files: File[]; // files[0] is what the core opens; the rest sit next to it
+  discs: number;
+}
+
+// Outcome of identifying a ROM's system, see engine/platformDetect.ts
+export interface PlatformDetection {
+  platform: Platform; // Best guess
+  candidates: Platform[]; // Every plausible system, best first; more than one means the user has to pick
+  source: 'header' | 'extension' | 'fallback';
+}
+
+// Everything the app needs to know about one system, see engine/platforms.ts
+export interface PlatformInfo {
+  id: Platform;
+  label: string; // Short name for tiles and lists
+  core: string; // Libretro core Nostalgist loads
+  extensions: string[]; // Lower case, without the dot
+  buttons: (keyof ControllerInput)[]; // Pad buttons the system has, besides the d-pad
+  frameRate: number; // Frames per second of the (NTSC) machine
+  aspectRatio: number; // Width / height of the native display
+  bios: BiosRequirement[];
+  rewind: RewindSettings & { intervalMs: number }; // Defaults; intervalMs is how often a rewind state is kept
+  activeClass: string; // Tailwind classes of the selected tile
+}
+
+export type PlaybackSpeed = 'slow' | 'normal' | 'fast';
+
+export type PauseReason = 'host' | 'hidden' | 'disconnect';
+
+// Host: how the game is running, mirrored to every peer
+export interface PlaybackPayload {
+  paused: boolean;
+  reason: PauseReason | null; // The one shown while paused
+  rate: number; // Speed as a multiple of normal, e.g. 0.5 in slow motion
+}
+
+// Hold-to-rewind for one system
+export interface RewindSettings {
+  enabled: boolean;
+  seconds: number; // How far back the buffer reaches
+}
+
+export enum StreamQualityPreset {
+  LOW_LATENCY = 'LOW_LATENCY',
+  BALANCED = 'BALANCED',
+  HIGH_QUALITY = 'HIGH_QUALITY',
+  AUTO = 'AUTO', // Steps quality up and down per guest based on the link stats
+  MANUAL = 'MANUAL'
+}
+
+export type VideoCodec = 'auto' | 'VP8' | 'VP9' | 'H264' | 'AV1';
+
+// Encoder limits for the host's video feed
+export interface StreamQualitySettings {
+  fps: number;
+  maxBitrateKbps: number;
+  scaleDown: number; // 1 = full canvas resolution, 2 = half width and height
+  codec: VideoCodec;
+}
+
+export interface StreamQualityConfig {
+  preset: StreamQualityPreset;
+  manual: StreamQualitySettings;
+}
+
+// Where PeerJS signals and which ICE servers WebRTC may use
+export interface NetworkSettings {
+  host: string; // Empty = public PeerJS cloud broker
+  port: number | null;
+  path: string;
+  key: string;
+  secure: boolean;
+  iceServers: RTCIceServer[]; // Empty = PeerJS default STUN
+}
+
+// Guest-side progress of an automatic reconnect to the host
+export interface ReconnectState {
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: number | null;
+  failed: boolean; // Gave up; waiting for a manual retry
+}
+
+// One second of link quality, as shown in the network stats overlay
+export interface NetworkSample {
+  timestamp: number;
+  rttMs: number | null; // PING/PONG round trip over the data channel
+  jitterMs: number | null;
+  bitrateKbps: number | null; // Video sent (host) or received (guest)
+  packetLossPct: number | null;
+  framesDecoded: number | null;
+  framesDropped: number | null;
+  jitterBufferMs: number | null;
 }
 
 export interface PlayerState {
@@ -37,12 +205,150 @@ export interface ControllerInput {
   select: boolean;
 }
 
-// Data sent over PeerJS
-export interface PeerMessage {
-  type: 'INPUT' | 'STATE_UPDATE' | 'PLATFORM_CHANGE' | 'ROM_LOAD' | 'SAVE_RESTORE' | 'CHAT';
-  payload: any;
+// Features a peer build supports, announced in the HELLO handshake
+export type PeerCapability = 'multitap' | 'spectator' | 'lockstep' | 'stats' | 'chat' | 'voice' | 'rom-transfer' | 'port-assign' | 'join-approval' | 'playback';
+
+export interface HelloPayload {
+  version: number; // PROTOCOL_VERSION of the sender's build
+  app: string;
+  capabilities: PeerCapability[];
+  name?: string; // Joining peer's display name, shown in the host's approval prompt
+  password?: string; // Joining peer's attempt at the session password
+}
+
+// What a joining peer tells the host about itself
+export interface JoinIdentity {
+  name: string;
+  password: string;
+}
+
+export interface LockstepStartPayload {
+  epoch: number;
+  ports: number[];
+  state: ArrayBuffer; // Save state every core starts from
+}
+
+export interface LockstepInputPayload {
+  epoch: number;
+  frame: number;
+  port: number;
+  input: ControllerInput;
+}
+
+export interface ChatPayload {
+  text: string;
+  sentAt: number;
+  sender?: string; // Set by the host when relaying (e.g. "P2"), ignored when a guest sends it
+}
+
+// One line in the chat panel
+export interface ChatMessage {
+  id: number;
+  sender: string;
+  text: string;
+  sentAt: number;
+  isLocal: boolean;
+}
+
+export interface RomHash {
+  sha1: string | null; // Null when the sender couldn't compute it (no secure context)
+  crc32: string;
+}
+
+// Identity of the ROM the host is running, so guests can fetch or verify a copy
+export interface RomInfo extends RomHash {
+  name: string;
+  size: number;
 }
 
+export interface RomTransferStartPayload {
+  transferId: string;
+  info: RomInfo;
+  chunkSize: number;
+  totalChunks: number;
+}
+
+export interface RomChunkPayload {
+  transferId: string;
+  index: number;
+  data: ArrayBuffer;
+}
+
+// A ROM transfer in progress, as shown in the UI
+export interface RomTransferProgress {
+  id: string;
+  name: string;
+  label: string; // Who it goes to (host) or comes from (guest)
+  direction: 'upload' | 'download';
+  bytesDone: number;
+  bytesTotal: number;
+}
+
+export interface SaveRestorePayload {
+  romName: string;
+  romCrc32: string | null; // Null when the sender doesn't know the ROM's hash yet
+  state: ArrayBuffer;
+}
+
+// How the host currently routes controllers, sent to each guest with its own seat filled in.
+// Several players on one port drive it together; their inputs are merged.
+export interface PortMapPayload {
+  port: number; // The receiving guest's port
+  locked: boolean; // The host is ignoring this guest's input
+  hostPort: number;
+  guestPorts: number[]; // Ports at least one guest drives
+  lockedPorts: number[]; // Ports whose only drivers are locked-out guests
+}
+
+// Host: one row of the port assignment panel
+export interface PlayerSeat {
+  id: string; // 'host' or the guest's peer id
+  label: string;
+  port: number;
+  locked: boolean;
+  isHost: boolean;
+}
+
+// A save state another peer shared with us, kept for this session
+export interface SharedState {
+  id: number;
+  romName: string;
+  romCrc32: string | null;
+  from: string;
+  receivedAt: number;
+  state: ArrayBuffer;
+}
+
+// Data sent over PeerJS
+export type PeerMessage =
+  | { type: 'HELLO'; payload: HelloPayload }
+  | { type: 'INPUT'; payload: ArrayBuffer } // Reliable fallback for the binary input packet
+  | { type: 'STATE_UPDATE'; payload: GameState }
+  | { type: 'PLATFORM_CHANGE'; payload: Platform }
+  | { type: 'ROM_LOAD'; payload: { name: string } }
+  | { type: 'ROM_INFO'; payload: RomInfo }
+  | { type: 'ROM_REQUEST'; payload: { name: string } }
+  | { type: 'ROM_TRANSFER_START'; payload: RomTransferStartPayload }
+  | { type: 'ROM_CHUNK'; payload: RomChunkPayload }
+  | { type: 'ROM_CHUNK_ACK'; payload: { transferId: string; index: number } }
+  | { type: 'ROM_TRANSFER_CANCEL'; payload: { transferId: string; reason: string } }
+  | { type: 'SAVE_RESTORE'; payload: SaveRestorePayload }
+  | { type: 'CHAT'; payload: ChatPayload }
+  | { type: 'PLAYER_ASSIGN'; payload: { port: number } }
+  | { type: 'REJECT'; payload: { reason: string } }
+  | { type: 'VIEWER_COUNT'; payload: { count: number } }
+  | { type: 'NETPLAY_MODE'; payload: { mode: NetplayMode } }
+  | { type: 'LOCKSTEP_READY'; payload: { name: string } }
+  | { type: 'LOCKSTEP_START'; payload: LockstepStartPayload }
+  | { type: 'LOCKSTEP_INPUT'; payload: LockstepInputPayload }
+  | { type: 'VOICE_ACTIVITY'; payload: { ports: number[] } }
+  | { type: 'PORT_MAP'; payload: PortMapPayload }
+  | { type: 'PLAYBACK'; payload: PlaybackPayload }
+  | { type: 'PING'; payload: { id: number; sentAt: number } }
+  | { type: 'PONG'; payload: { id: number; sentAt: number } };
+
+export type PeerMessageType = PeerMessage['type'];
+
 export interface GameState {
   p1: PlayerState;
   p2: PlayerState;
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+// Build-time network presets, see services/networkConfig.ts
+interface ImportMetaEnv {
+  readonly VITE_PEER_HOST?: string;
+  readonly VITE_PEER_PORT?: string;
+  readonly VITE_PEER_PATH?: string;
+  readonly VITE_PEER_KEY?: string;
+  readonly VITE_PEER_SECURE?: string;
+  readonly VITE_ICE_SERVERS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}